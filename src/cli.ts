@@ -0,0 +1,446 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { parseArgs } from 'util';
+import { ExternalConnectors } from '@microsoft/microsoft-graph-types';
+
+import { ItemTypeChoice, itemTypeNames } from './menu.js';
+import ServiceProvider from './services/serviceProvider.js';
+import SyncReport from './pipeline/syncReport.js';
+
+export enum ExitCode {
+  // The command completed successfully
+  Success = 0,
+  // The command failed, or some items failed to push
+  Failure = 1,
+  // The command line was invalid
+  InvalidUsage = 2,
+  // The configuration file or environment variables were invalid
+  InvalidConfiguration = 3,
+}
+
+export const commands = [
+  'create-connection',
+  'list-connections',
+  'delete-connection',
+  'register-schema',
+  'migrate',
+  'status',
+  'push',
+  'remove-stale-items',
+  'backup',
+  'restore',
+  'daemon',
+  'help',
+] as const;
+
+export type Command = (typeof commands)[number];
+
+export type CommandLine = {
+  command?: Command;
+  connectionId?: string;
+  name?: string;
+  description?: string;
+  itemType?: ItemTypeChoice;
+  incremental: boolean;
+  dryRun: boolean;
+  force: boolean;
+  backfillActivities: boolean;
+  recreate: boolean;
+  reportFile?: string;
+  outputFile?: string;
+  inputFile?: string;
+  configFile?: string;
+  verbose: boolean;
+};
+
+export const usage = `Usage: npm start -- [command] [options]
+
+Runs the interactive menu if no command is given. The name, description
+and type of a connection defined in the configuration file are used
+when they aren't given on the command line.
+
+Commands:
+  create-connection   Create a connection
+                      (--connection-id, --name, --type, [--description])
+  list-connections    List existing connections
+  delete-connection   Delete a connection (--connection-id)
+  register-schema     Register the schema for a connection
+                      (--connection-id, --type)
+  migrate             Update the schema of a connection to the current version
+                      (--connection-id, [--type], [--dry-run], [--recreate])
+  status              Wait for the last schema operation on a connection
+                      and report its result (--connection-id)
+  push                Push items from GitHub to a connection
+                      (--connection-id, --type, [--incremental], [--force],
+                      [--backfill-activities], [--report], [--dry-run],
+                      [--output])
+  remove-stale-items  Remove items that no longer exist in GitHub
+                      (--connection-id, [--dry-run])
+  backup              Push items from GitHub to a connection, and write them
+                      to a backup file (--connection-id, --type,
+                      [--incremental], [--force], [--backfill-activities],
+                      [--report], [--output])
+  restore             Push the items in a backup file to a connection,
+                      creating it if it doesn't exist (--connection-id,
+                      --input, [--name], [--type], [--description],
+                      [--backfill-activities], [--report])
+  daemon              Push to the connections in the configuration file on
+                      their schedules, and serve /healthz and /status
+  help                Show this message
+
+Options:
+  --connection-id <id>   The ID of the connection (3-32 alphanumeric characters)
+  --name <name>          The name of the connection
+  --description <text>   The description of the connection
+  --type <type>          The type of data: ${Object.keys(itemTypeNames).join(', ')}
+  --incremental          Only push issues updated since the last successful sync
+  --dry-run              List stale items or schema changes without applying
+                         them, or write the items a push would send to a file
+  --force                Push items even if they haven't changed since they
+                         were last pushed
+  --backfill-activities  Add all activities of each item pushed or restored,
+                         including those added before
+  --recreate             Recreate the connection if its schema can't be updated
+  --report <file>        Write the results of a push to a JSON file
+  --output <file>        The file a push with --dry-run or a backup writes items
+                         to, as newline-delimited JSON (default:
+                         <connection-id>.ndjson or <connection-id>.backup.ndjson)
+  --input <file>         The backup file to restore
+  --config <file>        Load settings from a JSON or YAML configuration file
+  --verbose              Print the stack trace of an error that stops a command`;
+
+/**
+ * Parses command-line arguments.
+ *
+ * @param args - The command-line arguments, not including the node executable and script.
+ * @returns The parsed command line.
+ */
+export function parseCommandLine(args: string[]): CommandLine {
+  const { values, positionals } = parseArgs({
+    args: args,
+    allowPositionals: true,
+    options: {
+      'connection-id': { type: 'string' },
+      name: { type: 'string' },
+      description: { type: 'string' },
+      type: { type: 'string' },
+      incremental: { type: 'boolean', default: false },
+      'dry-run': { type: 'boolean', default: false },
+      force: { type: 'boolean', default: false },
+      'backfill-activities': { type: 'boolean', default: false },
+      recreate: { type: 'boolean', default: false },
+      report: { type: 'string' },
+      output: { type: 'string' },
+      input: { type: 'string' },
+      config: { type: 'string' },
+      verbose: { type: 'boolean', default: false },
+      // Used by dotenv-flow and the simplified admin mode
+      'node-env': { type: 'string' },
+      'use-simplified-admin': { type: 'boolean' },
+    },
+  });
+
+  if (positionals.length > 1) {
+    throw new Error(`Unexpected argument: ${positionals[1]}`);
+  }
+
+  const command = positionals[0];
+  if (command && !commands.includes(command as Command)) {
+    throw new Error(`Unknown command: ${command}`);
+  }
+
+  let itemType: ItemTypeChoice | undefined = undefined;
+  if (values.type) {
+    itemType = itemTypeNames[values.type];
+    if (itemType === undefined) {
+      throw new Error(`Unknown type: ${values.type}`);
+    }
+  }
+
+  return {
+    command: command as Command | undefined,
+    connectionId: values['connection-id'],
+    name: values.name,
+    description: values.description,
+    itemType: itemType,
+    incremental: values.incremental ?? false,
+    dryRun: values['dry-run'] ?? false,
+    force: values.force ?? false,
+    backfillActivities: values['backfill-activities'] ?? false,
+    recreate: values.recreate ?? false,
+    reportFile: values.report,
+    outputFile: values.output,
+    inputFile: values.input,
+    configFile: values.config,
+    verbose: values.verbose ?? false,
+  };
+}
+
+/**
+ * Runs a command non-interactively.
+ *
+ * @param commandLine - The parsed command line.
+ * @param serviceProvider - Provides the services used to run the command.
+ * @returns The exit code for the process.
+ */
+export async function runCommandAsync(
+  commandLine: CommandLine,
+  serviceProvider: ServiceProvider,
+): Promise<ExitCode> {
+  const { connectionId } = commandLine;
+  const stateService = serviceProvider.stateService;
+
+  // Settings not given on the command line come from the
+  // connection's entry in the configuration file
+  const connection = serviceProvider.getConnectionConfig(connectionId);
+  const itemType = commandLine.itemType ?? connection?.itemType;
+  const name = commandLine.name ?? connection?.name;
+  const description = commandLine.description ?? connection?.description;
+
+  try {
+    const { connectorService, ingestionService, schemaService } =
+      serviceProvider.getServices(connectionId);
+
+    switch (commandLine.command) {
+      case 'create-connection': {
+        if (!connectionId || !name || itemType === undefined) {
+          return invalidUsage(
+            'create-connection requires --connection-id, --name and --type',
+          );
+        }
+
+        if (!/^[0-9a-zA-Z]{3,32}$/.test(connectionId)) {
+          return invalidUsage(
+            'Connection ID must be alphanumeric and 3 to 32 characters long',
+          );
+        }
+
+        const connection = await connectorService.createConnectionAsync(
+          connectionId,
+          name,
+          itemType,
+          description,
+        );
+        console.log(
+          `New connection created - Name: ${connection?.name}, Id: ${connection?.id}`,
+        );
+        return ExitCode.Success;
+      }
+      case 'list-connections': {
+        const response = await connectorService.getConnectionsAsync();
+        const connections =
+          response.value as ExternalConnectors.ExternalConnection[];
+        for (const connection of connections) {
+          console.log(
+            `${connection.id}\t${connection.name}\t${connection.state}`,
+          );
+        }
+        return ExitCode.Success;
+      }
+      case 'delete-connection': {
+        if (!connectionId) {
+          return invalidUsage('delete-connection requires --connection-id');
+        }
+
+        await connectorService.deleteConnectionAsync(connectionId);
+        await stateService.deleteConnectionStateAsync(connectionId);
+        console.log('Connection deleted successfully.');
+        return ExitCode.Success;
+      }
+      case 'register-schema': {
+        if (!connectionId || itemType === undefined) {
+          return invalidUsage(
+            'register-schema requires --connection-id and --type',
+          );
+        }
+
+        console.log('Registering schema, this may take some time...');
+        await schemaService.registerSchemaAsync(connectionId, itemType);
+        console.log('Schema registered successfully.');
+        return ExitCode.Success;
+      }
+      case 'migrate': {
+        if (!connectionId) {
+          return invalidUsage('migrate requires --connection-id');
+        }
+
+        const succeeded = await schemaService.migrateAsync(
+          connectionId,
+          itemType,
+          {
+            dryRun: commandLine.dryRun,
+            confirmRecreate: () => {
+              if (!commandLine.recreate) {
+                console.log(
+                  'Run the command again with --recreate to recreate the connection.',
+                );
+              }
+              return commandLine.recreate;
+            },
+          },
+        );
+        return succeeded ? ExitCode.Success : ExitCode.Failure;
+      }
+      case 'status': {
+        if (!connectionId) {
+          return invalidUsage('status requires --connection-id');
+        }
+
+        const connectionState = stateService.getConnectionState(connectionId);
+        if (!connectionState.schemaOperation) {
+          console.log(
+            'No schema operation has been recorded for this connection.',
+          );
+          return ExitCode.Success;
+        }
+
+        if (connectionState.schemaOperation.status === 'inprogress') {
+          console.log(
+            'Waiting for schema operation to complete, this may take some time...',
+          );
+        }
+
+        const operation =
+          await schemaService.waitForSchemaOperationAsync(connectionId);
+        console.log(
+          `Schema operation ${operation?.operationId} started at ${operation?.startTime} ${operation?.status}${operation?.error ? `: ${operation.error}` : ''}`,
+        );
+        console.log(
+          `Registered schema version: ${connectionState.schemaVersion ?? 'unknown'}`,
+        );
+        return operation?.status === 'completed'
+          ? ExitCode.Success
+          : ExitCode.Failure;
+      }
+      case 'push': {
+        if (!connectionId || itemType === undefined) {
+          return invalidUsage('push requires --connection-id and --type');
+        }
+
+        const report = await ingestionService.pushItemsAsync(
+          connectionId,
+          itemType,
+          commandLine.incremental,
+          {
+            dryRunFile: commandLine.dryRun
+              ? (commandLine.outputFile ?? `${connectionId}.ndjson`)
+              : undefined,
+            force: commandLine.force,
+            backfillActivities: commandLine.backfillActivities,
+          },
+        );
+        await saveReportAsync(commandLine, report);
+        return report.results.succeeded ? ExitCode.Success : ExitCode.Failure;
+      }
+      case 'backup': {
+        if (!connectionId || itemType === undefined) {
+          return invalidUsage('backup requires --connection-id and --type');
+        }
+
+        const report = await ingestionService.pushItemsAsync(
+          connectionId,
+          itemType,
+          commandLine.incremental,
+          {
+            backupFile:
+              commandLine.outputFile ?? `${connectionId}.backup.ndjson`,
+            force: commandLine.force,
+            backfillActivities: commandLine.backfillActivities,
+          },
+        );
+        await saveReportAsync(commandLine, report);
+        return report.results.succeeded ? ExitCode.Success : ExitCode.Failure;
+      }
+      case 'restore': {
+        if (!connectionId || !commandLine.inputFile) {
+          return invalidUsage('restore requires --connection-id and --input');
+        }
+
+        if (!(await connectorService.connectionExistsAsync(connectionId))) {
+          if (!name || itemType === undefined) {
+            return invalidUsage(
+              'restore requires --name and --type to create a connection',
+            );
+          }
+
+          await connectorService.createConnectionAsync(
+            connectionId,
+            name,
+            itemType,
+            description,
+          );
+          console.log('Connection created, registering schema...');
+          await schemaService.registerSchemaAsync(connectionId, itemType);
+          console.log('Schema registered successfully.');
+        }
+
+        const report = await ingestionService.restoreItemsAsync(
+          connectionId,
+          commandLine.inputFile,
+          commandLine.backfillActivities,
+        );
+        await saveReportAsync(commandLine, report);
+        return report.results.succeeded ? ExitCode.Success : ExitCode.Failure;
+      }
+      case 'remove-stale-items': {
+        if (!connectionId) {
+          return invalidUsage('remove-stale-items requires --connection-id');
+        }
+
+        const succeeded = await ingestionService.removeStaleItemsAsync(
+          connectionId,
+          commandLine.dryRun,
+        );
+        return succeeded ? ExitCode.Success : ExitCode.Failure;
+      }
+      default:
+        console.log(usage);
+        return ExitCode.Success;
+    }
+  } catch (error) {
+    console.log(`Error: ${describeError(error, commandLine.verbose)}`);
+    return ExitCode.Failure;
+  }
+}
+
+/**
+ * Describes an error that stopped a command.
+ *
+ * @param error - The error.
+ * @param verbose - True to include the stack trace.
+ * @returns The description.
+ */
+function describeError(error: unknown, verbose: boolean): string {
+  // Errors from Microsoft Graph are printed as JSON, as
+  // their body explains why the request failed
+  if (error instanceof Error && !('body' in error)) {
+    return verbose && error.stack ? error.stack : error.message;
+  }
+
+  return JSON.stringify(error, null, 2);
+}
+
+/**
+ * Writes the results of a push to the report file, if one was given.
+ *
+ * @param commandLine - The parsed command line.
+ * @param report - The results of the push.
+ */
+async function saveReportAsync(commandLine: CommandLine, report: SyncReport) {
+  if (commandLine.reportFile) {
+    await report.saveAsync(commandLine.reportFile);
+    console.log(`Report written to ${commandLine.reportFile}`);
+  }
+}
+
+/**
+ * Reports an invalid command line.
+ *
+ * @param message - The message describing the problem.
+ * @returns The exit code for an invalid command line.
+ */
+function invalidUsage(message: string): ExitCode {
+  console.log(`${message}\n\n${usage}`);
+  return ExitCode.InvalidUsage;
+}
@@ -0,0 +1,530 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+
+import { ItemTypeChoice, itemTypeNames } from '../menu.js';
+import CronSchedule from '../pipeline/cronSchedule.js';
+import { AclMode } from '../services/searchConnectorService.js';
+import { IssueState } from '../services/repositoryService.js';
+
+/**
+ * Settings that apply to all connections, and can be overridden
+ * for a single connection.
+ */
+export type ConnectionSettings = {
+  /**
+   * The GitHub user or organization.
+   */
+  owner?: string;
+  /**
+   * The repository to ingest from. If not set, all of the owner's
+   * repositories that match the include and exclude patterns are used.
+   */
+  repo?: string;
+  includeRepos?: string[];
+  excludeRepos?: string[];
+  issueState?: IssueState;
+  closedWithinDays?: number;
+  pullRequestState?: IssueState;
+  docsPaths?: string[];
+  aclMode?: AclMode;
+  placeholderUserId?: string;
+};
+
+/**
+ * A connection defined in the configuration file.
+ */
+export type ConnectionConfig = ConnectionSettings & {
+  id: string;
+  name?: string;
+  description?: string;
+  /**
+   * The type of items ingested into the connection.
+   */
+  itemType?: ItemTypeChoice;
+  /**
+   * A cron expression for when to push items to the connection.
+   */
+  schedule?: string;
+  /**
+   * If true, scheduled pushes only push issues updated since the last successful sync.
+   */
+  incremental?: boolean;
+};
+
+/**
+ * The settings for the connector, loaded from the configuration
+ * file and environment variables.
+ */
+export type AppConfig = ConnectionSettings & {
+  tenantId?: string;
+  clientId?: string;
+  clientSecret?: string;
+  gitHubToken?: string;
+  graphBaseUrl?: string;
+  gitHubBaseUrl?: string;
+  port: number;
+  stateFile?: string;
+  identityMappingFile?: string;
+  mapIdentitiesByEmail: boolean;
+  gitHubConcurrency: number;
+  graphConcurrency: number;
+  schemaPollIntervalSeconds?: number;
+  schemaPollMaxIntervalSeconds?: number;
+  schemaTimeoutMinutes?: number;
+  webhookSecret?: string;
+  webhookIssuesConnectionId?: string;
+  webhookPullRequestsConnectionId?: string;
+  webhookRepositoriesConnectionId?: string;
+  connections: ConnectionConfig[];
+};
+
+type SettingSpec = {
+  kind: 'string' | 'number' | 'boolean' | 'list';
+  // The environment variable that overrides the setting
+  env?: string;
+  // The allowed values of a string setting
+  values?: readonly string[];
+  // If true, a number setting must be greater than zero
+  positive?: boolean;
+  // If true, a number setting must be a whole number
+  integer?: boolean;
+};
+
+const connectionSettingSpecs: Record<keyof ConnectionSettings, SettingSpec> = {
+  owner: { kind: 'string', env: 'GITHUB_REPO_OWNER' },
+  repo: { kind: 'string', env: 'GITHUB_REPO' },
+  includeRepos: { kind: 'list', env: 'GITHUB_REPO_INCLUDE' },
+  excludeRepos: { kind: 'list', env: 'GITHUB_REPO_EXCLUDE' },
+  issueState: {
+    kind: 'string',
+    env: 'ISSUE_STATE',
+    values: ['open', 'closed', 'all'],
+  },
+  closedWithinDays: {
+    kind: 'number',
+    env: 'ISSUE_CLOSED_WITHIN_DAYS',
+    positive: true,
+  },
+  pullRequestState: {
+    kind: 'string',
+    env: 'PULL_REQUEST_STATE',
+    values: ['open', 'closed', 'all'],
+  },
+  docsPaths: { kind: 'list', env: 'GITHUB_DOCS_PATHS' },
+  aclMode: {
+    kind: 'string',
+    env: 'ACL_MODE',
+    values: ['everyone', 'repository'],
+  },
+  placeholderUserId: { kind: 'string', env: 'PLACEHOLDER_USER_ID' },
+};
+
+const appSettingSpecs: Record<
+  Exclude<keyof AppConfig, keyof ConnectionSettings | 'connections'>,
+  SettingSpec
+> = {
+  tenantId: { kind: 'string', env: 'TENANT_ID' },
+  clientId: { kind: 'string', env: 'CLIENT_ID' },
+  clientSecret: { kind: 'string', env: 'CLIENT_SECRET' },
+  gitHubToken: { kind: 'string', env: 'GITHUB_TOKEN' },
+  graphBaseUrl: { kind: 'string', env: 'GRAPH_BASE_URL' },
+  gitHubBaseUrl: { kind: 'string', env: 'GITHUB_BASE_URL' },
+  port: { kind: 'number', env: 'PORT_NUMBER', positive: true },
+  stateFile: { kind: 'string', env: 'STATE_FILE' },
+  identityMappingFile: { kind: 'string', env: 'IDENTITY_MAPPING_FILE' },
+  mapIdentitiesByEmail: { kind: 'boolean', env: 'MAP_IDENTITIES_BY_EMAIL' },
+  gitHubConcurrency: {
+    kind: 'number',
+    env: 'GITHUB_CONCURRENCY',
+    positive: true,
+    integer: true,
+  },
+  graphConcurrency: {
+    kind: 'number',
+    env: 'GRAPH_CONCURRENCY',
+    positive: true,
+    integer: true,
+  },
+  schemaPollIntervalSeconds: {
+    kind: 'number',
+    env: 'SCHEMA_POLL_INTERVAL_SECONDS',
+    positive: true,
+  },
+  schemaPollMaxIntervalSeconds: {
+    kind: 'number',
+    env: 'SCHEMA_POLL_MAX_INTERVAL_SECONDS',
+    positive: true,
+  },
+  schemaTimeoutMinutes: {
+    kind: 'number',
+    env: 'SCHEMA_TIMEOUT_MINUTES',
+    positive: true,
+  },
+  webhookSecret: { kind: 'string', env: 'GITHUB_WEBHOOK_SECRET' },
+  webhookIssuesConnectionId: {
+    kind: 'string',
+    env: 'WEBHOOK_ISSUES_CONNECTION_ID',
+  },
+  webhookPullRequestsConnectionId: {
+    kind: 'string',
+    env: 'WEBHOOK_PULL_REQUESTS_CONNECTION_ID',
+  },
+  webhookRepositoriesConnectionId: {
+    kind: 'string',
+    env: 'WEBHOOK_REPOSITORIES_CONNECTION_ID',
+  },
+};
+
+const connectionSpecs: Record<
+  Exclude<keyof ConnectionConfig, keyof ConnectionSettings | 'itemType'>,
+  SettingSpec
+> = {
+  id: { kind: 'string' },
+  name: { kind: 'string' },
+  description: { kind: 'string' },
+  schedule: { kind: 'string' },
+  incremental: { kind: 'boolean' },
+};
+
+// Settings that must be set in the configuration file or environment
+const requiredSettings = [
+  'tenantId',
+  'clientId',
+  'clientSecret',
+  'gitHubToken',
+] as const;
+
+// Settings that must be set at the top level or for every connection
+const requiredConnectionSettings = ['owner', 'placeholderUserId'] as const;
+
+/**
+ * Loads the settings for the connector. Settings in the configuration
+ * file are overridden by environment variables, and settings for a
+ * connection override the top-level settings for that connection.
+ *
+ * @param configFile - The path to a JSON or YAML configuration file, if any.
+ * @param env - The environment variables.
+ * @returns The settings.
+ * @throws Error
+ * If the configuration file can't be read, or any setting is invalid.
+ * The message lists every invalid setting.
+ */
+export function loadConfig(
+  configFile: string | undefined,
+  env: typeof process.env,
+): AppConfig {
+  let fileSettings: Record<string, unknown> = {};
+  if (configFile) {
+    fileSettings = readConfigFile(configFile);
+  }
+
+  const errors: string[] = [];
+  const specs = { ...appSettingSpecs, ...connectionSettingSpecs };
+  const settings = {
+    ...readSettings(fileSettings, specs, '', errors, ['connections']),
+    ...readEnvSettings(env, specs, errors),
+  };
+
+  const connections: ConnectionConfig[] = [];
+  if (fileSettings.connections !== undefined) {
+    if (!Array.isArray(fileSettings.connections)) {
+      errors.push('connections: must be a list');
+    } else {
+      fileSettings.connections.forEach((value, index) => {
+        const connection = readConnection(
+          value,
+          `connections[${index}]`,
+          errors,
+        );
+        if (connection) {
+          if (connections.some((c) => c.id === connection.id)) {
+            errors.push(
+              `connections[${index}].id: duplicate connection ID ${connection.id}`,
+            );
+          }
+          connections.push(connection);
+        }
+      });
+    }
+  }
+
+  for (const name of requiredSettings) {
+    if (settings[name] === undefined) {
+      const envName = specs[name].env;
+      errors.push(
+        `${name}: required, set it in the configuration file or ${envName}`,
+      );
+    }
+  }
+
+  for (const name of requiredConnectionSettings) {
+    if (
+      settings[name] === undefined &&
+      (connections.length <= 0 ||
+        connections.some((connection) => connection[name] === undefined))
+    ) {
+      const envName = specs[name].env;
+      errors.push(
+        `${name}: required, set it in the configuration file, for every connection, or ${envName}`,
+      );
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid configuration${configFile ? ` in ${configFile}` : ''}, please see README:\n${errors.map((error) => `  - ${error}`).join('\n')}`,
+    );
+  }
+
+  return {
+    port: 5001,
+    mapIdentitiesByEmail: false,
+    gitHubConcurrency: 4,
+    graphConcurrency: 4,
+    ...settings,
+    connections: connections,
+  };
+}
+
+/**
+ * Reads a JSON or YAML configuration file.
+ *
+ * @param configFile - The path to the file.
+ * @returns The top-level object in the file.
+ */
+function readConfigFile(configFile: string): Record<string, unknown> {
+  let contents: string;
+  try {
+    contents = readFileSync(configFile, 'utf-8');
+  } catch (error) {
+    throw new Error(
+      `Could not read configuration file ${configFile}: ${(error as Error).message}`,
+    );
+  }
+
+  let parsed: unknown;
+  try {
+    const extension = extname(configFile).toLowerCase();
+    parsed =
+      extension === '.yaml' || extension === '.yml'
+        ? parseYaml(contents)
+        : JSON.parse(contents);
+  } catch (error) {
+    throw new Error(
+      `Could not parse configuration file ${configFile}: ${(error as Error).message}`,
+    );
+  }
+
+  if (!isObject(parsed)) {
+    throw new Error(
+      `Invalid configuration in ${configFile}: the file must contain an object`,
+    );
+  }
+
+  return parsed;
+}
+
+/**
+ * Reads a connection from the configuration file.
+ *
+ * @param value - The value in the file.
+ * @param path - The location of the value, used in errors.
+ * @param errors - Collects errors in the value.
+ * @returns The connection, or undefined if it doesn't have a valid ID.
+ */
+function readConnection(
+  value: unknown,
+  path: string,
+  errors: string[],
+): ConnectionConfig | undefined {
+  if (!isObject(value)) {
+    errors.push(`${path}: must be an object`);
+    return undefined;
+  }
+
+  const connection = readSettings(
+    value,
+    { ...connectionSpecs, ...connectionSettingSpecs },
+    `${path}.`,
+    errors,
+    ['type'],
+  ) as Omit<ConnectionConfig, 'itemType'>;
+
+  let itemType: ItemTypeChoice | undefined = undefined;
+  if (value.type !== undefined) {
+    itemType = itemTypeNames[String(value.type)];
+    if (itemType === undefined) {
+      errors.push(
+        `${path}.type: must be one of ${Object.keys(itemTypeNames).join(', ')}`,
+      );
+    }
+  }
+
+  if (connection.schedule !== undefined) {
+    try {
+      if (!new CronSchedule(connection.schedule).getNextTime(new Date())) {
+        errors.push(`${path}.schedule: never runs`);
+      }
+    } catch (error) {
+      errors.push(`${path}.schedule: ${(error as Error).message}`);
+    }
+
+    // Scheduled pushes need to know what to push
+    if (value.type === undefined) {
+      errors.push(`${path}.type: required when schedule is set`);
+    }
+  }
+
+  if (connection.id === undefined) {
+    errors.push(`${path}.id: required`);
+    return undefined;
+  }
+
+  if (!/^[0-9a-zA-Z]{3,32}$/.test(connection.id)) {
+    errors.push(`${path}.id: must be alphanumeric and 3 to 32 characters long`);
+  }
+
+  return { ...connection, itemType: itemType };
+}
+
+/**
+ * Reads and validates settings from an object in the configuration file.
+ *
+ * @param source - The object.
+ * @param specs - The settings allowed in the object.
+ * @param prefix - The location of the object, used in errors.
+ * @param errors - Collects errors in the settings.
+ * @param ignored - Names of properties that are read separately.
+ * @returns The valid settings that are set.
+ */
+function readSettings(
+  source: Record<string, unknown>,
+  specs: Record<string, SettingSpec>,
+  prefix: string,
+  errors: string[],
+  ignored: string[],
+): Record<string, unknown> {
+  const settings: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(source)) {
+    if (ignored.includes(name)) {
+      continue;
+    }
+
+    const spec = specs[name];
+    if (!spec) {
+      errors.push(`${prefix}${name}: unknown setting`);
+      continue;
+    }
+
+    if (value === undefined || value === null) {
+      continue;
+    }
+
+    const error = validateSetting(value, spec);
+    if (error) {
+      errors.push(`${prefix}${name}: ${error}`);
+    } else {
+      settings[name] = value;
+    }
+  }
+
+  return settings;
+}
+
+/**
+ * Reads and validates settings from environment variables.
+ *
+ * @param env - The environment variables.
+ * @param specs - The settings that can be set by environment variables.
+ * @param errors - Collects errors in the settings.
+ * @returns The valid settings that are set.
+ */
+function readEnvSettings(
+  env: typeof process.env,
+  specs: Record<string, SettingSpec>,
+  errors: string[],
+): Record<string, unknown> {
+  const settings: Record<string, unknown> = {};
+  for (const [name, spec] of Object.entries(specs)) {
+    const text = spec.env ? env[spec.env]?.trim() : undefined;
+    if (!text) {
+      continue;
+    }
+
+    let value: unknown = text;
+    if (spec.kind === 'number') {
+      value = Number(text);
+    } else if (spec.kind === 'boolean') {
+      value = text === 'true' ? true : text === 'false' ? false : text;
+    } else if (spec.kind === 'list') {
+      value = text
+        .split(',')
+        .map((v) => v.trim())
+        .filter((v) => v.length > 0);
+    }
+
+    const error = validateSetting(value, spec);
+    if (error) {
+      errors.push(`${spec.env}: ${error}`);
+    } else {
+      settings[name] = value;
+    }
+  }
+
+  return settings;
+}
+
+/**
+ * Checks that a setting has a valid value.
+ *
+ * @param value - The value.
+ * @param spec - The setting.
+ * @returns A description of the problem, or undefined if the value is valid.
+ */
+function validateSetting(
+  value: unknown,
+  spec: SettingSpec,
+): string | undefined {
+  switch (spec.kind) {
+    case 'string':
+      if (typeof value !== 'string' || value.length <= 0) {
+        return 'must be a non-empty string';
+      }
+      if (spec.values && !spec.values.includes(value)) {
+        return `must be one of ${spec.values.join(', ')}`;
+      }
+      return undefined;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return 'must be a number';
+      }
+      if (spec.integer && !Number.isInteger(value)) {
+        return 'must be a whole number';
+      }
+      if (spec.positive && !(value > 0)) {
+        return 'must be greater than 0';
+      }
+      return undefined;
+    case 'boolean':
+      return typeof value === 'boolean' ? undefined : 'must be true or false';
+    case 'list':
+      return Array.isArray(value) &&
+        value.every((item) => typeof item === 'string')
+        ? undefined
+        : 'must be a list of strings';
+  }
+}
+
+/**
+ * Checks if a value is a plain object.
+ *
+ * @param value - The value.
+ * @returns True if the value is an object and not a list.
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,88 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import IdentityMapper from './identityMapper.js';
+
+/**
+ * Tries a list of mappers in order and caches the result for each
+ * login or team, including those that could not be mapped.
+ *
+ * @remarks
+ * Errors, such as a failed request to GitHub or Microsoft Graph, aren't
+ * cached, so the login or team is mapped again the next time it's needed.
+ * They're passed on, as treating the login or team as one that can't be
+ * mapped would leave it out of the ACLs of private repositories.
+ */
+export default class CachingIdentityMapper implements IdentityMapper {
+  private mappers: IdentityMapper[];
+  private userCache = new Map<string, Promise<string | undefined>>();
+  private groupCache = new Map<string, Promise<string | undefined>>();
+
+  /**
+   * Initializes a new instance of the CachingIdentityMapper class.
+   *
+   * @param mappers - The mappers to try, in order.
+   */
+  constructor(mappers: IdentityMapper[]) {
+    this.mappers = mappers;
+  }
+
+  public async getUserIdAsync(login: string): Promise<string | undefined> {
+    return this.getCachedAsync(this.userCache, login.toLowerCase(), (mapper) =>
+      mapper.getUserIdAsync(login),
+    );
+  }
+
+  public async getGroupIdAsync(teamSlug: string): Promise<string | undefined> {
+    return this.getCachedAsync(this.groupCache, teamSlug, (mapper) =>
+      mapper.getGroupIdAsync(teamSlug),
+    );
+  }
+
+  /**
+   * Gets a cached mapping, or asks each mapper in turn if there isn't one.
+   * @param cache - The cache to use.
+   * @param key - The cache key.
+   * @param map - Calls the mapping method on a mapper.
+   * @returns The ID from the first mapper that returns one.
+   */
+  private async getCachedAsync(
+    cache: Map<string, Promise<string | undefined>>,
+    key: string,
+    map: (mapper: IdentityMapper) => Promise<string | undefined>,
+  ): Promise<string | undefined> {
+    // Cache the promise so concurrent lookups
+    // for the same key only query once
+    let id = cache.get(key);
+    if (!id) {
+      const mapping = this.mapAsync(map);
+      cache.set(key, mapping);
+      mapping.catch(() => {
+        if (cache.get(key) === mapping) {
+          cache.delete(key);
+        }
+      });
+      id = mapping;
+    }
+
+    return id;
+  }
+
+  /**
+   * Asks each mapper in turn to map a login or team.
+   * @param map - Calls the mapping method on a mapper.
+   * @returns The ID from the first mapper that returns one.
+   */
+  private async mapAsync(
+    map: (mapper: IdentityMapper) => Promise<string | undefined>,
+  ): Promise<string | undefined> {
+    for (const mapper of this.mappers) {
+      const id = await map(mapper);
+      if (id) {
+        return id;
+      }
+    }
+
+    return undefined;
+  }
+}
@@ -0,0 +1,46 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import IdentityMapper from './identityMapper.js';
+import RepositoryService from '../services/repositoryService.js';
+import SearchConnectorService from '../services/searchConnectorService.js';
+
+/**
+ * Maps GitHub logins to users by looking up the public email
+ * address of the GitHub user in Microsoft Entra ID.
+ */
+export default class EmailIdentityMapper implements IdentityMapper {
+  private repoService: RepositoryService;
+  private connectorService: SearchConnectorService;
+
+  /**
+   * Initializes a new instance of the EmailIdentityMapper class.
+   *
+   * @param repoService - The repository service, used to get GitHub user profiles.
+   * @param connectorService - The connector service, used to find users by email.
+   */
+  constructor(
+    repoService: RepositoryService,
+    connectorService: SearchConnectorService,
+  ) {
+    this.repoService = repoService;
+    this.connectorService = connectorService;
+  }
+
+  public async getUserIdAsync(login: string): Promise<string | undefined> {
+    const gitHubUser = await this.repoService.getUserAsync(login);
+
+    // The email is only available if the user
+    // has made it public on their GitHub profile
+    if (!gitHubUser.email) {
+      return undefined;
+    }
+
+    return this.connectorService.getUserIdByEmailAsync(gitHubUser.email);
+  }
+
+  public async getGroupIdAsync(_: string): Promise<string | undefined> {
+    // GitHub teams don't have an email address
+    return undefined;
+  }
+}
@@ -0,0 +1,28 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+/**
+ * Maps GitHub logins to Microsoft Entra ID users, and GitHub
+ * teams to Microsoft Entra ID groups.
+ *
+ * @remarks
+ * Implementations return undefined when they cannot map a login or team,
+ * so that several mappers can be chained together.
+ */
+export default interface IdentityMapper {
+  /**
+   * Gets the Microsoft Entra ID user ID for a GitHub login.
+   *
+   * @param login - The GitHub login.
+   * @returns The user ID, or undefined if the login could not be mapped.
+   */
+  getUserIdAsync(login: string): Promise<string | undefined>;
+
+  /**
+   * Gets the Microsoft Entra ID group ID for a GitHub team.
+   *
+   * @param teamSlug - The slug of the GitHub team.
+   * @returns The group ID, or undefined if the team could not be mapped.
+   */
+  getGroupIdAsync(teamSlug: string): Promise<string | undefined>;
+}
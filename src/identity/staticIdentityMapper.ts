@@ -0,0 +1,56 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { readFileSync } from 'fs';
+import IdentityMapper from './identityMapper.js';
+
+/**
+ * The format of an identity mapping file.
+ */
+export type IdentityMappingFile = {
+  /**
+   * Map of GitHub logins to Microsoft Entra ID user IDs.
+   */
+  users?: Record<string, string>;
+  /**
+   * Map of GitHub team slugs to Microsoft Entra ID group IDs.
+   */
+  teams?: Record<string, string>;
+};
+
+/**
+ * Maps GitHub logins to users and GitHub teams to groups
+ * using a static JSON mapping file.
+ */
+export default class StaticIdentityMapper implements IdentityMapper {
+  private users: Map<string, string>;
+  private teams: Map<string, string>;
+
+  /**
+   * Initializes a new instance of the StaticIdentityMapper class.
+   *
+   * @param mappingFile - The path to the JSON mapping file.
+   */
+  constructor(mappingFile: string) {
+    const mapping = JSON.parse(
+      readFileSync(mappingFile, 'utf-8'),
+    ) as IdentityMappingFile;
+
+    // GitHub logins are case-insensitive
+    this.users = new Map(
+      Object.entries(mapping.users ?? {}).map(([login, userId]) => [
+        login.toLowerCase(),
+        userId,
+      ]),
+    );
+    this.teams = new Map(Object.entries(mapping.teams ?? {}));
+  }
+
+  public async getUserIdAsync(login: string): Promise<string | undefined> {
+    return this.users.get(login.toLowerCase());
+  }
+
+  public async getGroupIdAsync(teamSlug: string): Promise<string | undefined> {
+    return this.teams.get(teamSlug);
+  }
+}
@@ -4,65 +4,155 @@
 import 'dotenv-flow/config';
 import * as readline from 'readline-sync';
 import { ExternalConnectors } from '@microsoft/microsoft-graph-types';
-import { marked } from 'marked';
 
 import { MenuChoice, menuPrompts, ItemTypeChoice, itemTypes } from './menu.js';
-import PlainTextRenderer from './markdown/plainTextRenderer.js';
-import SearchConnectorService from './services/searchConnectorService.js';
-import RepositoryService, {
-  Issue,
-  IssueComment,
-  IssueEvent,
-  RepoEvent,
-  Repository,
-} from './services/repositoryService.js';
+import {
+  CommandLine,
+  ExitCode,
+  parseCommandLine,
+  runCommandAsync,
+  usage,
+} from './cli.js';
+import { AppConfig, loadConfig } from './config/appConfig.js';
 import M365AppConfigService from './services/m365AppConfigService.js';
+import GitHubWebhookService from './services/gitHubWebhookService.js';
+import ServiceProvider from './services/serviceProvider.js';
+import SchedulerService from './services/schedulerService.js';
 
 async function main() {
-  // Connector service for making Microsoft Graph
-  // calls to manage connector
-  const connectorService = new SearchConnectorService({
-    tenantId: process.env.TENANT_ID,
-    clientId: process.env.CLIENT_ID,
-    clientSecret: process.env.CLIENT_SECRET,
-    gitHubOwner: process.env.GITHUB_REPO_OWNER,
-    gitHubRepo: process.env.GITHUB_REPO,
-    placeHolderUserId: process.env.PLACEHOLDER_USER_ID,
-  });
-
-  // Repo service for getting information from GitHub
-  const repoService = new RepositoryService({
-    gitHubOwner: process.env.GITHUB_REPO_OWNER,
-    gitHubRepo: process.env.GITHUB_REPO,
-    gitHubToken: process.env.GITHUB_TOKEN,
-  });
-
-  // Check for simplified admin switch
-  if (process.argv.includes('--use-simplified-admin')) {
-    // Start listener service
-    const m365ConfigService = new M365AppConfigService(connectorService, {
-      clientId: process.env.CLIENT_ID,
-      tenantId: process.env.TENANT_ID,
-      port: parseInt(process.env.PORT_NUMBER ?? '5001'),
-    });
+  // Parse the command line before loading settings
+  // so that usage errors are reported first
+  let commandLine: CommandLine;
+  try {
+    commandLine = parseCommandLine(process.argv.slice(2));
+  } catch (error) {
+    console.log(`${(error as Error).message}\n\n${usage}`);
+    process.exitCode = ExitCode.InvalidUsage;
+    return;
+  }
+
+  if (commandLine.command === 'help') {
+    console.log(usage);
+    return;
+  }
+
+  // Settings come from the configuration file, if any,
+  // overridden by environment variables
+  let config: AppConfig;
+  try {
+    config = loadConfig(
+      commandLine.configFile ?? process.env.CONFIG_FILE,
+      process.env,
+    );
+  } catch (error) {
+    console.log((error as Error).message);
+    process.exitCode = ExitCode.InvalidConfiguration;
+    return;
+  }
 
-    m365ConfigService.listen();
+  // Creates the services for each connection
+  const serviceProvider = new ServiceProvider(config);
+
+  if (commandLine.command === 'daemon') {
+    // Push to connections on their schedules, and start the
+    // listener service for health checks and webhooks
+    const schedulerService = new SchedulerService(serviceProvider);
+    if (schedulerService.jobCount <= 0) {
+      console.log('No connections in the configuration file have a schedule.');
+    }
+
+    startListener(config, serviceProvider, schedulerService);
+    stopOnSignal(schedulerService);
+    await schedulerService.startAsync();
+  } else if (commandLine.command) {
+    // Run a single command non-interactively
+    process.exitCode = await runCommandAsync(commandLine, serviceProvider);
+  } else if (process.argv.includes('--use-simplified-admin')) {
+    // Check for simplified admin switch
+    // Start listener service
+    startListener(config, serviceProvider);
   } else {
     // Run interactively
-    await runInteractivelyAsync(connectorService, repoService);
+    await runInteractivelyAsync(serviceProvider);
   }
 }
 
 /**
- * Present menu to user and process their choice.
+ * Start the listener service, also handling GitHub
+ * webhooks if a webhook secret is configured.
  *
- * @param connectorService - The connector service.
- * @param repoService - The repository service.
+ * @param config - The settings for the connector.
+ * @param serviceProvider - Provides the services for each connection.
+ * @param schedulerService - If set, the scheduler's endpoints are also handled.
  */
-async function runInteractivelyAsync(
-  connectorService: SearchConnectorService,
-  repoService: RepositoryService,
+function startListener(
+  config: AppConfig,
+  serviceProvider: ServiceProvider,
+  schedulerService?: SchedulerService,
 ) {
+  let gitHubWebhookService: GitHubWebhookService | undefined = undefined;
+  if (config.webhookSecret) {
+    gitHubWebhookService = new GitHubWebhookService(serviceProvider, {
+      webhookSecret: config.webhookSecret,
+      issuesConnectionId: config.webhookIssuesConnectionId,
+      pullRequestsConnectionId: config.webhookPullRequestsConnectionId,
+      repositoriesConnectionId: config.webhookRepositoriesConnectionId,
+    });
+  }
+
+  const { connectorService, schemaService } = serviceProvider.getServices();
+  const m365ConfigService = new M365AppConfigService(
+    connectorService,
+    schemaService,
+    {
+      clientId: config.clientId,
+      tenantId: config.tenantId,
+      port: config.port,
+      gitHubWebhookService: gitHubWebhookService,
+      schedulerService: schedulerService,
+    },
+  );
+
+  m365ConfigService.listen();
+}
+
+/**
+ * Stop scheduling pushes when the process is asked to stop, and exit
+ * once the pushes in progress have ended. A second signal exits without
+ * waiting for them.
+ *
+ * @param schedulerService - The scheduler to stop.
+ */
+function stopOnSignal(schedulerService: SchedulerService) {
+  let stopping = false;
+  const stop = (signal: string) => {
+    if (stopping) {
+      process.exit(ExitCode.Failure);
+    }
+
+    stopping = true;
+    console.log(`Received ${signal}, waiting for pushes in progress to end...`);
+    schedulerService.stopAsync().then(
+      () => process.exit(ExitCode.Success),
+      (error) => {
+        console.log(
+          `Error stopping the scheduler: ${JSON.stringify(error, null, 2)}`,
+        );
+        process.exit(ExitCode.Failure);
+      },
+    );
+  };
+
+  process.on('SIGTERM', stop);
+  process.on('SIGINT', stop);
+}
+
+/**
+ * Present menu to user and process their choice.
+ *
+ * @param serviceProvider - Provides the services for each connection.
+ */
+async function runInteractivelyAsync(serviceProvider: ServiceProvider) {
   let choice: MenuChoice = MenuChoice.Invalid;
   let currentConnection: ExternalConnectors.ExternalConnection | undefined =
     undefined;
@@ -79,16 +169,16 @@ async function runInteractivelyAsync(
         break;
       case MenuChoice.CreateConnection:
         currentConnection =
-          await createConnectionInteractivelyAsync(connectorService);
+          await createConnectionInteractivelyAsync(serviceProvider);
         break;
       case MenuChoice.SelectConnection:
         currentConnection =
-          await selectConnectionInteractivelyAsync(connectorService);
+          await selectConnectionInteractivelyAsync(serviceProvider);
         break;
       case MenuChoice.DeleteConnection:
         if (currentConnection) {
           await deleteConnectionInteractivelyAsync(
-            connectorService,
+            serviceProvider,
             currentConnection.id,
           );
           currentConnection = undefined;
@@ -101,7 +191,7 @@ async function runInteractivelyAsync(
       case MenuChoice.RegisterSchema:
         if (currentConnection) {
           await registerSchemaInteractivelyAsync(
-            connectorService,
+            serviceProvider,
             currentConnection.id,
           );
         } else {
@@ -113,8 +203,31 @@ async function runInteractivelyAsync(
       case MenuChoice.PushAllItems:
         if (currentConnection) {
           await pushItemsInteractivelyAsync(
-            connectorService,
-            repoService,
+            serviceProvider,
+            currentConnection.id,
+          );
+        } else {
+          console.log(
+            'No connection selected. Please create a new connection or select an existing connection.',
+          );
+        }
+        break;
+      case MenuChoice.RemoveStaleItems:
+        if (currentConnection) {
+          await removeStaleItemsInteractivelyAsync(
+            serviceProvider,
+            currentConnection.id,
+          );
+        } else {
+          console.log(
+            'No connection selected. Please create a new connection or select an existing connection.',
+          );
+        }
+        break;
+      case MenuChoice.MigrateSchema:
+        if (currentConnection) {
+          await migrateSchemaInteractivelyAsync(
+            serviceProvider,
             currentConnection.id,
           );
         } else {
@@ -132,11 +245,11 @@ async function runInteractivelyAsync(
 /**
  * Prompt the user for information to create a new connection.
  *
- * @param connectorService - The connector service.
+ * @param serviceProvider - Provides the services for each connection.
  * @returns The created connection.
  */
 async function createConnectionInteractivelyAsync(
-  connectorService: SearchConnectorService,
+  serviceProvider: ServiceProvider,
 ): Promise<ExternalConnectors.ExternalConnection | undefined> {
   // Prompt for connection ID
   const connectionId = readline.question(
@@ -170,6 +283,7 @@ async function createConnectionInteractivelyAsync(
   );
 
   try {
+    const { connectorService } = serviceProvider.getServices(connectionId);
     const connection = await connectorService.createConnectionAsync(
       connectionId,
       connectionName,
@@ -188,15 +302,16 @@ async function createConnectionInteractivelyAsync(
 /**
  * Get existing connections and prompt the user to choose one.
  *
- * @param connectorService - The connector service.
+ * @param serviceProvider - Provides the services for each connection.
  * @returns The selected connection.
  */
 async function selectConnectionInteractivelyAsync(
-  connectorService: SearchConnectorService,
+  serviceProvider: ServiceProvider,
 ): Promise<ExternalConnectors.ExternalConnection | undefined> {
   console.log('Getting existing connections...');
 
   try {
+    const { connectorService } = serviceProvider.getServices();
     const response = await connectorService.getConnectionsAsync();
     const connections =
       response.value as ExternalConnectors.ExternalConnection[];
@@ -224,16 +339,22 @@ async function selectConnectionInteractivelyAsync(
 /**
  * Prompt user to confirm, then delete current connection.
  *
- * @param connectorService - The connector service.
+ * @param serviceProvider - Provides the services for each connection.
  * @param connectionId - The ID of the current connection.
  */
 async function deleteConnectionInteractivelyAsync(
-  connectorService: SearchConnectorService,
+  serviceProvider: ServiceProvider,
   connectionId?: string,
 ) {
   if (readline.keyInYNStrict()) {
     try {
+      const { connectorService } = serviceProvider.getServices(connectionId);
       await connectorService.deleteConnectionAsync(connectionId);
+      if (connectionId) {
+        await serviceProvider.stateService.deleteConnectionStateAsync(
+          connectionId,
+        );
+      }
       console.log('Connection deleted successfully.');
     } catch (error) {
       console.log(
@@ -246,17 +367,19 @@ async function deleteConnectionInteractivelyAsync(
 /**
  * Prompt the user for the type of data then register the appropriate schema.
  *
- * @param connectorService - The connector service.
+ * @param serviceProvider - Provides the services for each connection.
  * @param connectionId - The ID of the current connection.
  */
 async function registerSchemaInteractivelyAsync(
-  connectorService: SearchConnectorService,
+  serviceProvider: ServiceProvider,
   connectionId?: string,
 ) {
   if (!connectionId) {
     throw new Error('connectionId cannot be empty or undefined');
   }
 
+  const { schemaService } = serviceProvider.getServices(connectionId);
+
   const itemType: ItemTypeChoice = readline.keyInSelect(
     itemTypes,
     'What type of data?',
@@ -264,12 +387,7 @@ async function registerSchemaInteractivelyAsync(
 
   console.log('Registering schema, this may take some time...');
   try {
-    await connectorService.registerSchemaAsync(
-      connectionId,
-      itemType == ItemTypeChoice.Issues
-        ? SearchConnectorService.issuesSchema
-        : SearchConnectorService.reposSchema,
-    );
+    await schemaService.registerSchemaAsync(connectionId, itemType);
     console.log('Schema registered successfully.');
   } catch (error) {
     console.log(`Error registering schema: ${JSON.stringify(error, null, 2)}`);
@@ -279,211 +397,107 @@ async function registerSchemaInteractivelyAsync(
 /**
  * Prompt the user for the type of data then push data from GitHub to the connection.
  *
- * @param connectorService - The connector service.
- * @param repoService - The repository service.
+ * @param serviceProvider - Provides the services for each connection.
  * @param connectionId - The ID of the current connection.
  */
 async function pushItemsInteractivelyAsync(
-  connectorService: SearchConnectorService,
-  repoService: RepositoryService,
+  serviceProvider: ServiceProvider,
   connectionId?: string,
 ) {
   if (!connectionId) {
     throw new Error('connectionId cannot be empty or undefined');
   }
 
+  const { ingestionService } = serviceProvider.getServices(connectionId);
+
   const itemType: ItemTypeChoice = readline.keyInSelect(
     itemTypes,
     'What type of data?',
   );
 
-  if (itemType === ItemTypeChoice.Issues) {
-    await pushAllIssuesWithActivitiesAsync(
-      connectorService,
-      repoService,
-      connectionId,
+  // Incremental sync only pushes issues updated since the
+  // last successful sync to this connection
+  const incremental =
+    itemType === ItemTypeChoice.Issues &&
+    readline.keyInYNStrict(
+      'Only push issues updated since the last successful sync?',
     );
-  } else {
-    await pushAllRepositoriesAsync(connectorService, repoService, connectionId);
-  }
+
+  await ingestionService.pushItemsAsync(connectionId, itemType, incremental);
 }
 
 /**
- * Get open issues from configured GitHub repo and push to current connection.
+ * List items that no longer exist in GitHub, then prompt
+ * the user to confirm before removing them from the connection.
  *
- * @param connectorService - The connector service.
- * @param repoService - The repository service.
+ * @param serviceProvider - Provides the services for each connection.
  * @param connectionId - The ID of the current connection.
  */
-async function pushAllIssuesWithActivitiesAsync(
-  connectorService: SearchConnectorService,
-  repoService: RepositoryService,
-  connectionId: string,
+async function removeStaleItemsInteractivelyAsync(
+  serviceProvider: ServiceProvider,
+  connectionId?: string,
 ) {
-  let issues: Issue[] | undefined = undefined;
-  try {
-    issues = await repoService.getIssuesForRepositoryAsync();
-  } catch (error) {
-    console.log(`Error getting issues: ${JSON.stringify(error, null, 2)}`);
+  if (!connectionId) {
+    throw new Error('connectionId cannot be empty or undefined');
   }
 
-  // Markdown to plain text renderer
-  const plainText = new PlainTextRenderer();
+  const { ingestionService } = serviceProvider.getServices(connectionId);
 
-  if (issues) {
-    for (const issue of issues) {
-      console.log(`Adding/updating issue ${issue.number}`);
+  // List the stale items first
+  await ingestionService.removeStaleItemsAsync(connectionId, true);
 
-      let issueEvents: IssueEvent[] = [];
-      try {
-        issueEvents = await repoService.getEventsForIssueAsync(issue.number);
-      } catch (error) {
-        console.log(
-          `Error getting events for issue: ${JSON.stringify(error, null, 2)}`,
-        );
-      }
-
-      let comments: IssueComment[] = [];
-      try {
-        comments = await repoService.getCommentsForIssueAsync(issue.number);
-      } catch (error) {
-        console.log(
-          `Error getting comments for issue: ${JSON.stringify(error, null, 2)}`,
-        );
-      }
-
-      try {
-        const issueItem =
-          await connectorService.createExternalItemFromIssueAsync(
-            issue,
-            issueEvents,
-          );
-
-        // Generate content for the issue by concatenating
-        // the body of the issue + all comments
-        let issueContent = await marked.parse(issue.body || '', {
-          async: true,
-          renderer: plainText,
-        });
-
-        for (const comment of comments) {
-          issueContent += `\n${await marked.parse(comment.body || '', {
-            async: true,
-            renderer: plainText,
-          })}`;
-        }
-
-        issueItem.content = {
-          type: 'text',
-          value: issueContent,
-        };
-
-        await connectorService.addOrUpdateItemAsync(connectionId, issueItem);
-
-        const activities =
-          await connectorService.createExternalActivitiesFromIssueEventsAsync(
-            issueEvents,
-          );
-        await connectorService.addIssueActivitiesAsync(
-          connectionId,
-          issue.number.toString(),
-          activities,
-        );
-        console.log('DONE');
-      } catch (error) {
-        console.log(
-          `Error adding/updating issue: ${JSON.stringify(error, null, 2)}`,
-        );
-      }
-    }
+  const staleItemIds = ingestionService.getStaleItemIds(connectionId);
+  if (
+    staleItemIds &&
+    staleItemIds.length > 0 &&
+    readline.keyInYNStrict('Remove these items?')
+  ) {
+    await ingestionService.removeStaleItemsAsync(connectionId, false);
   }
 }
 
 /**
- * Get repositories from configured GitHub owner and push to current connection.
+ * Show the differences between the registered schema and the current
+ * schema, then prompt the user to confirm before migrating.
  *
- * @param connectorService - The connector service.
- * @param repoService - The repository service.
+ * @param serviceProvider - Provides the services for each connection.
  * @param connectionId - The ID of the current connection.
  */
-async function pushAllRepositoriesAsync(
-  connectorService: SearchConnectorService,
-  repoService: RepositoryService,
-  connectionId: string,
+async function migrateSchemaInteractivelyAsync(
+  serviceProvider: ServiceProvider,
+  connectionId?: string,
 ) {
-  let repos: Repository[] | undefined = undefined;
-  try {
-    repos = await repoService.getRepositoriesAsync();
-  } catch (error) {
-    console.log(
-      `Error getting repositories: ${JSON.stringify(error, null, 2)}`,
-    );
+  if (!connectionId) {
+    throw new Error('connectionId cannot be empty or undefined');
   }
 
-  // Markdown to plain text renderer
-  const plainText = new PlainTextRenderer();
-
-  if (repos) {
-    for (const repo of repos) {
-      console.log(`Adding/updating repository ${repo.name}...`);
-
-      let repoEvents: RepoEvent[] = [];
-      try {
-        repoEvents = await repoService.getEventsForRepoAsync(repo.name);
-      } catch (error) {
-        console.log(
-          `Error getting events for repo: ${JSON.stringify(error, null, 2)}`,
-        );
-      }
-
-      const repoItem = await connectorService.createExternalItemFromRepoAsync(
-        repo,
-        repoEvents,
-      );
+  const { schemaService } = serviceProvider.getServices(connectionId);
 
-      if (repo.visibility === 'public') {
-        // For public repositories,
-        // set content to the README
-        try {
-          const readme = await repoService.getReadmeAsync(repo.name);
+  // The type of data is recorded when the schema is registered
+  let itemType =
+    serviceProvider.stateService.getConnectionState(connectionId).itemType;
+  if (itemType === undefined) {
+    itemType = readline.keyInSelect(itemTypes, 'What type of data?');
+  }
 
-          const readmeContent = Buffer.from(readme.content, 'base64').toString(
-            'utf-8',
-          );
-          if (readme) {
-            const plainContent = await marked.parse(readmeContent, {
-              async: true,
-              renderer: plainText,
-            });
-
-            repoItem.content = {
-              type: 'text',
-              value: plainContent,
-            };
-          }
-        } catch (error) {
-          console.log(
-            `Error getting README: ${JSON.stringify(error, null, 2)}`,
-          );
-        }
-      } else {
-        // For private repositories,
-        // set content to the JSON representation
-        repoItem.content = {
-          type: 'text',
-          value: JSON.stringify(repo),
-        };
-      }
+  try {
+    // Show the differences first
+    await schemaService.migrateAsync(connectionId, itemType, {
+      dryRun: true,
+      confirmRecreate: () => false,
+    });
 
-      try {
-        await connectorService.addOrUpdateItemAsync(connectionId, repoItem);
-        console.log('DONE');
-      } catch (error) {
-        console.log(
-          `Error adding/updating repository: ${JSON.stringify(error, null, 2)}`,
-        );
-      }
+    if (readline.keyInYNStrict('Migrate the schema?')) {
+      await schemaService.migrateAsync(connectionId, itemType, {
+        dryRun: false,
+        confirmRecreate: () =>
+          readline.keyInYNStrict(
+            'Delete and recreate the connection, then push all items?',
+          ),
+      });
     }
+  } catch (error) {
+    console.log(`Error migrating schema: ${JSON.stringify(error, null, 2)}`);
   }
 }
 
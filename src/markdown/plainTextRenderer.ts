@@ -3,6 +3,31 @@
 
 import { MarkedOptions, Renderer, Tokens } from 'marked';
 
+// Entities that marked.js escapes in text, plus common ones in GitHub HTML
+const namedEntities: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  mdash: '—',
+  ndash: '–',
+  hellip: '…',
+  middot: '·',
+  bull: '•',
+  times: '×',
+  larr: '←',
+  rarr: '→',
+};
+
+// HTML elements that start a new line when converted to text
+const blockElements =
+  'address|article|aside|blockquote|dd|details|div|dl|dt|figcaption|figure|footer|h[1-6]|header|hr|li|ol|p|pre|section|summary|table|tbody|td|tfoot|th|thead|tr|ul';
+
 /**
  * Custom renderer for marked.js to convert
  * Markdown to plain text
@@ -12,83 +37,176 @@ export default class PlainTextRenderer extends Renderer {
     super(options);
   }
 
+  space(): string {
+    return '';
+  }
+
   code(tokens: Tokens.Code): string {
     return '\n\n' + tokens.text + '\n\n';
   }
 
   blockquote(tokens: Tokens.Blockquote): string {
-    return tokens.text + '\n';
+    return '\n' + this.parser.parse(tokens.tokens).trim() + '\n';
   }
 
-  html(tokens: Tokens.HTML): string {
-    return tokens.text;
+  html(tokens: Tokens.HTML | Tokens.Tag): string {
+    const text = stripHtml(tokens.text);
+    if (!tokens.block) {
+      return text;
+    }
+
+    // Drop the indentation and blank lines left by removed tags
+    const lines = text
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0);
+    return lines.length > 0 ? '\n' + lines.join('\n') + '\n' : '';
   }
 
   heading(tokens: Tokens.Heading): string {
-    return tokens.text;
+    return '\n' + this.parser.parseInline(tokens.tokens) + '\n';
   }
 
   hr(): string {
     return '\n\n';
   }
 
-  list(_tokens: Tokens.List): string {
-    return '';
+  list(tokens: Tokens.List): string {
+    let body = '';
+    tokens.items.forEach((item, index) => {
+      const marker = tokens.ordered ? `${(tokens.start || 1) + index}. ` : '- ';
+      const indent = ' '.repeat(marker.length);
+
+      // Indent the lines after the first, including any nested lists,
+      // so they line up with the text of the item
+      const lines = this.listitem(item).split('\n');
+      if (tokens.loose && index > 0) {
+        // Keep the blank line between items of a loose list
+        body += '\n';
+      }
+      body += marker + lines[0] + '\n';
+      for (const line of lines.slice(1)) {
+        body += (line.length > 0 ? indent + line : line) + '\n';
+      }
+    });
+
+    return '\n' + body;
   }
 
   listitem(tokens: Tokens.ListItem): string {
-    return '- ' + tokens.text + '\n';
+    const text = this.parser.parse(tokens.tokens, !!tokens.loose).trim();
+    return tokens.task
+      ? this.checkbox({ checked: !!tokens.checked }) + text
+      : text;
   }
 
-  checkbox(_tokens: Tokens.Checkbox): string {
-    return '';
+  checkbox(tokens: Tokens.Checkbox): string {
+    return tokens.checked ? '[x] ' : '[ ] ';
   }
 
   paragraph(tokens: Tokens.Paragraph): string {
-    return '\n' + tokens.text + '\n';
+    return '\n' + this.parser.parseInline(tokens.tokens) + '\n';
   }
 
-  table(_tokens: Tokens.Table): string {
-    return '';
+  table(tokens: Tokens.Table): string {
+    let body = this.tablerow({
+      text: tokens.header.map((cell) => this.tablecell(cell)).join(''),
+    });
+    for (const row of tokens.rows) {
+      body += this.tablerow({
+        text: row.map((cell) => this.tablecell(cell)).join(''),
+      });
+    }
+
+    return '\n' + body;
   }
 
   tablerow(tokens: Tokens.TableRow): string {
-    return tokens.text + '\n';
+    // Remove the separator after the last cell
+    return tokens.text.replace(/\t$/, '') + '\n';
   }
 
   tablecell(tokens: Tokens.TableCell): string {
-    return tokens.text + '\t';
+    return this.parser.parseInline(tokens.tokens) + '\t';
   }
 
   strong(tokens: Tokens.Strong): string {
-    return tokens.text;
+    return this.parser.parseInline(tokens.tokens);
   }
 
   em(tokens: Tokens.Em): string {
-    return tokens.text;
+    return this.parser.parseInline(tokens.tokens);
   }
 
   codespan(tokens: Tokens.Codespan): string {
-    return tokens.text;
+    return decodeEntities(tokens.text);
   }
 
   br(): string {
-    return '\n\n';
+    return '\n';
   }
 
   del(tokens: Tokens.Del): string {
-    return tokens.text;
+    return this.parser.parseInline(tokens.tokens);
   }
 
   link(tokens: Tokens.Link): string {
-    return tokens.text + ' (' + tokens.href + ')';
+    const text = this.parser.parseInline(tokens.tokens);
+
+    // Autolinks and bare URLs have the URL as their text
+    return text === tokens.href || `mailto:${text}` === tokens.href
+      ? text
+      : text + ' (' + tokens.href + ')';
   }
 
   image(tokens: Tokens.Image): string {
-    return tokens.text;
+    return decodeEntities(tokens.text);
   }
 
-  text(tokens: Tokens.Text): string {
-    return tokens.text;
+  text(tokens: Tokens.Text | Tokens.Escape | Tokens.Tag): string {
+    return 'tokens' in tokens && tokens.tokens
+      ? this.parser.parseInline(tokens.tokens)
+      : decodeEntities(tokens.text);
   }
 }
+
+/**
+ * Replaces HTML entities with the characters they represent.
+ *
+ * @param text - The text to decode.
+ * @returns The decoded text.
+ */
+function decodeEntities(text: string): string {
+  return text.replace(
+    /&(#[0-9]+|#x[0-9a-f]+|[a-z]+);/gi,
+    (entity, name: string) => {
+      if (name.startsWith('#')) {
+        const codePoint =
+          name[1].toLowerCase() === 'x'
+            ? parseInt(name.slice(2), 16)
+            : parseInt(name.slice(1), 10);
+        return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+      }
+
+      return namedEntities[name.toLowerCase()] ?? entity;
+    },
+  );
+}
+
+/**
+ * Removes the tags, comments, scripts and styles from HTML, leaving
+ * its text. Block elements and line breaks are replaced with new lines.
+ *
+ * @param html - The HTML.
+ * @returns The text.
+ */
+function stripHtml(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<!--[\s\S]*?(?:-->|$)/g, '')
+      .replace(/<(script|style)\b[\s\S]*?<\/\1\s*>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(new RegExp(`</?(?:${blockElements})\\b[^>]*>`, 'gi'), '\n')
+      .replace(/<\/?[a-z][^>]*>/gi, ''),
+  );
+}
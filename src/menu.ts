@@ -14,6 +14,10 @@ export enum MenuChoice {
   RegisterSchema,
   // Push items to the current connection
   PushAllItems,
+  // Remove items that no longer exist in GitHub from the current connection
+  RemoveStaleItems,
+  // Migrate the schema of the current connection to the current version
+  MigrateSchema,
   // Invalid choice
   Invalid,
 }
@@ -24,11 +28,34 @@ export const menuPrompts = [
   'Delete current connection',
   'Register schema for current connection',
   'Push items to current connection',
+  'Remove stale items from current connection',
+  'Migrate schema for current connection',
 ];
 
 export enum ItemTypeChoice {
   Issues,
   Repositories,
+  PullRequests,
+  Docs,
+  Discussions,
+  Releases,
 }
 
-export const itemTypes = ['Issues', 'Repositories'];
+export const itemTypes = [
+  'Issues',
+  'Repositories',
+  'Pull requests',
+  'Docs',
+  'Discussions',
+  'Releases',
+];
+
+// Names of item types used on the command line and in the configuration file
+export const itemTypeNames: Record<string, ItemTypeChoice> = {
+  issues: ItemTypeChoice.Issues,
+  repositories: ItemTypeChoice.Repositories,
+  'pull-requests': ItemTypeChoice.PullRequests,
+  docs: ItemTypeChoice.Docs,
+  discussions: ItemTypeChoice.Discussions,
+  releases: ItemTypeChoice.Releases,
+};
@@ -0,0 +1,88 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+/**
+ * Limits the number of asynchronous tasks that run at the same time.
+ *
+ * @remarks
+ * Tasks beyond the limit wait in first-in, first-out order. The limiter
+ * can also be paused, for example when a service responds with
+ * HTTP 429 Too Many Requests, so that waiting tasks don't start until
+ * the service's Retry-After interval has passed.
+ */
+export default class ConcurrencyLimiter {
+  private maxConcurrency: number;
+  private running = 0;
+  private waiting: (() => void)[] = [];
+  private pausedUntil = 0;
+
+  /**
+   * Initializes a new instance of the ConcurrencyLimiter class.
+   *
+   * @param maxConcurrency - The maximum number of tasks to run at the same time.
+   */
+  constructor(maxConcurrency: number) {
+    if (!Number.isInteger(maxConcurrency) || maxConcurrency < 1) {
+      throw new Error('Concurrency must be a positive integer');
+    }
+
+    this.maxConcurrency = maxConcurrency;
+  }
+
+  /**
+   * Runs a task once there is capacity.
+   *
+   * @param task - The task to run.
+   * @returns The result of the task.
+   */
+  public async runAsync<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquireAsync();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Stops new tasks from starting until a delay has passed.
+   *
+   * @param delayMilliseconds - How long to pause for.
+   */
+  public pause(delayMilliseconds: number) {
+    this.pausedUntil = Math.max(
+      this.pausedUntil,
+      Date.now() + delayMilliseconds,
+    );
+  }
+
+  /**
+   * Waits for a free slot, then for any pause to end.
+   */
+  private async acquireAsync() {
+    if (this.running < this.maxConcurrency) {
+      this.running++;
+    } else {
+      // release hands its slot directly to the next waiting task
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+
+    while (Date.now() < this.pausedUntil) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, this.pausedUntil - Date.now()),
+      );
+    }
+  }
+
+  /**
+   * Frees a slot, or hands it to the next waiting task.
+   */
+  private release() {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.running--;
+    }
+  }
+}
@@ -0,0 +1,155 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+/**
+ * The range of values of each field of a cron expression.
+ */
+const fields = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  // 0 and 7 are both Sunday
+  { name: 'day of week', min: 0, max: 7 },
+] as const;
+
+// How far ahead to look for the next time before
+// deciding that the schedule never matches
+const maxYearsAhead = 5;
+
+/**
+ * A schedule in the standard 5-field cron format:
+ * minute, hour, day of month, month, and day of week.
+ *
+ * @remarks
+ * Each field is `*`, a number, a range such as `1-5`, or a comma-delimited
+ * list of these, and may have a step such as `*\/15`. As in cron, if both
+ * the day of month and the day of week are restricted, a time matches
+ * if either matches. Times are in the local time zone.
+ */
+export default class CronSchedule {
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private daysOfMonth: Set<number>;
+  private months: Set<number>;
+  private daysOfWeek: Set<number>;
+  private anyDayOfMonth: boolean;
+  private anyDayOfWeek: boolean;
+
+  /**
+   * Initializes a new instance of the CronSchedule class.
+   *
+   * @param expression - The cron expression.
+   * @throws Error
+   * If the expression is invalid.
+   */
+  constructor(expression: string) {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== fields.length) {
+      throw new Error(
+        `Cron expression must have 5 fields, for example "0 * * * *"`,
+      );
+    }
+
+    const values = parts.map((part, index) => parseField(part, index));
+    [this.minutes, this.hours, this.daysOfMonth, this.months] = values;
+    this.daysOfWeek = new Set([...values[4]].map((day) => day % 7));
+    this.anyDayOfMonth = parts[2].startsWith('*');
+    this.anyDayOfWeek = parts[4].startsWith('*');
+  }
+
+  /**
+   * Gets the first time the schedule matches after a time.
+   *
+   * @param after - The time to start from.
+   * @returns The next matching time, or undefined if the schedule
+   * never matches, such as on February 30.
+   */
+  public getNextTime(after: Date): Date | undefined {
+    const time = new Date(after);
+    time.setSeconds(0, 0);
+    time.setMinutes(time.getMinutes() + 1);
+
+    const end = new Date(after);
+    end.setFullYear(end.getFullYear() + maxYearsAhead);
+
+    // Skip whole months, days and hours that don't match
+    // rather than checking every minute
+    while (time < end) {
+      if (!this.months.has(time.getMonth() + 1)) {
+        time.setMonth(time.getMonth() + 1, 1);
+        time.setHours(0, 0);
+      } else if (!this.isDayMatch(time)) {
+        time.setDate(time.getDate() + 1);
+        time.setHours(0, 0);
+      } else if (!this.hours.has(time.getHours())) {
+        time.setHours(time.getHours() + 1, 0);
+      } else if (!this.minutes.has(time.getMinutes())) {
+        time.setMinutes(time.getMinutes() + 1);
+      } else {
+        return time;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Checks if the day of a time matches the schedule.
+   *
+   * @param time - The time.
+   * @returns True if the day of month or day of week matches.
+   */
+  private isDayMatch(time: Date): boolean {
+    const dayOfMonthMatches = this.daysOfMonth.has(time.getDate());
+    const dayOfWeekMatches = this.daysOfWeek.has(time.getDay());
+    if (this.anyDayOfMonth || this.anyDayOfWeek) {
+      return dayOfMonthMatches && dayOfWeekMatches;
+    }
+
+    return dayOfMonthMatches || dayOfWeekMatches;
+  }
+}
+
+/**
+ * Parses a field of a cron expression.
+ *
+ * @param part - The text of the field.
+ * @param index - The position of the field in the expression.
+ * @returns The values that match the field.
+ */
+function parseField(part: string, index: number): Set<number> {
+  const field = fields[index];
+  const values = new Set<number>();
+
+  for (const item of part.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(item);
+    if (!match) {
+      throw new Error(`Invalid ${field.name} in cron expression: ${item}`);
+    }
+
+    let start: number = field.min;
+    let end: number = field.max;
+    if (match[2] !== undefined) {
+      start = Number(match[2]);
+      // A single value with a step, such as 5/15, runs to the end of the range
+      end =
+        match[3] !== undefined
+          ? Number(match[3])
+          : match[4] !== undefined
+            ? field.max
+            : start;
+    }
+    const step = match[4] !== undefined ? Number(match[4]) : 1;
+
+    if (start < field.min || end > field.max || start > end || step < 1) {
+      throw new Error(`Invalid ${field.name} in cron expression: ${item}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
@@ -0,0 +1,270 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { readFile, writeFile } from 'fs/promises';
+import { ExternalConnectors } from '@microsoft/microsoft-graph-types';
+
+import ExternalActivityWithType from '../types/externalActivityWithType.js';
+
+/**
+ * A line of an export file.
+ */
+export type ExportRecord =
+  | {
+      type: 'item';
+      item: ExternalConnectors.ExternalItem;
+      // Why the item doesn't match the schema, if it doesn't
+      errors?: string[];
+    }
+  | {
+      type: 'activities';
+      itemId: string;
+      activities: ExternalActivityWithType[];
+    };
+
+/**
+ * An item in an export, with its activities.
+ */
+export type ExportedItem = {
+  item: ExternalConnectors.ExternalItem;
+  activities: ExternalActivityWithType[];
+};
+
+// The OData type that Microsoft Graph expects in the `name@odata.type`
+// annotation of each collection property, by lower-case property type
+const collectionODataTypes: Record<string, string | undefined> = {
+  stringcollection: 'Collection(String)',
+  int64collection: 'Collection(Int64)',
+  doublecollection: 'Collection(Double)',
+  datetimecollection: 'Collection(DateTimeOffset)',
+};
+
+/**
+ * Collects the items and activities built during a push, so that they
+ * can be written to a file, either instead of pushing them during a dry
+ * run, or as a backup of the items pushed.
+ *
+ * @remarks
+ * If a schema is given, each item is checked against it as it's added, as
+ * Microsoft Graph rejects items with properties that aren't in the schema
+ * or have the wrong type. Adding an item that's already in the export
+ * replaces it. Records are written sorted by item ID, so that the files
+ * from two runs can be compared with diff.
+ */
+export default class ItemExport {
+  // The lower-case type of each property in the schema, as
+  // Microsoft Graph may return types in a different case
+  private properties?: Map<string, string>;
+  private items = new Map<string, Extract<ExportRecord, { type: 'item' }>>();
+  private activities = new Map<string, ExternalActivityWithType[]>();
+
+  /**
+   * Initializes a new instance of the ItemExport class.
+   *
+   * @param schema - The schema to check items against, if any.
+   */
+  constructor(schema?: ExternalConnectors.Schema) {
+    if (schema) {
+      this.properties = new Map(
+        (schema.properties ?? []).map((property) => [
+          property.name!,
+          property.type!.toLowerCase(),
+        ]),
+      );
+    }
+  }
+
+  /**
+   * Reads an export file written by saveAsync.
+   *
+   * @param exportFile - The path to the file.
+   * @returns The export.
+   */
+  static async loadAsync(exportFile: string): Promise<ItemExport> {
+    const itemExport = new ItemExport();
+    const lines = (await readFile(exportFile, 'utf-8')).split('\n');
+    for (const line of lines.filter((l) => l.trim())) {
+      const record = JSON.parse(line) as ExportRecord;
+      if (record.type === 'item') {
+        itemExport.items.set(record.item.id!, record);
+      } else {
+        itemExport.activities.set(record.itemId, record.activities);
+      }
+    }
+
+    return itemExport;
+  }
+
+  /**
+   * Gets the number of items added.
+   */
+  public get itemCount(): number {
+    return this.items.size;
+  }
+
+  /**
+   * Gets the items, sorted by ID, with their activities.
+   *
+   * @returns The items.
+   */
+  public getItems(): ExportedItem[] {
+    return [...this.items.keys()].sort(compare).map((itemId) => ({
+      item: this.items.get(itemId)!.item,
+      activities: this.activities.get(itemId) ?? [],
+    }));
+  }
+
+  /**
+   * Adds an item, checking it against the schema if there is one.
+   *
+   * @param item - The item.
+   * @returns Why the item doesn't match the schema, or an empty array if it does.
+   */
+  public addItem(item: ExternalConnectors.ExternalItem): string[] {
+    const errors = this.validateItem(item);
+    this.items.set(
+      item.id!,
+      errors.length > 0
+        ? { type: 'item', item: item, errors: errors }
+        : { type: 'item', item: item },
+    );
+    return errors;
+  }
+
+  /**
+   * Adds the activities for an item, replacing any added before,
+   * as each push builds all of an item's activities.
+   *
+   * @param itemId - The ID of the item.
+   * @param activities - The activities.
+   */
+  public addActivities(itemId: string, activities: ExternalActivityWithType[]) {
+    if (activities.length > 0) {
+      this.activities.set(itemId, activities);
+    }
+  }
+
+  /**
+   * Writes the items and activities to a file, one JSON object per line.
+   *
+   * @param exportFile - The path to the file.
+   */
+  public async saveAsync(exportFile: string): Promise<void> {
+    const records: ExportRecord[] = [];
+    for (const itemId of [...this.items.keys()].sort(compare)) {
+      records.push(this.items.get(itemId)!);
+
+      // An item's activities follow the item
+      const activities = this.activities.get(itemId);
+      if (activities) {
+        records.push({
+          type: 'activities',
+          itemId: itemId,
+          activities: activities,
+        });
+      }
+    }
+
+    await writeFile(
+      exportFile,
+      records.map((record) => `${JSON.stringify(record)}\n`).join(''),
+    );
+  }
+
+  /**
+   * Checks the properties of an item against the schema.
+   *
+   * @param item - The item.
+   * @returns Why the item doesn't match the schema.
+   */
+  private validateItem(item: ExternalConnectors.ExternalItem): string[] {
+    if (!this.properties) {
+      return [];
+    }
+
+    const errors: string[] = [];
+    const values = (item.properties ?? {}) as Record<string, unknown>;
+
+    for (const [name, value] of Object.entries(values)) {
+      // Annotations such as `name@odata.type` describe a property
+      const [propertyName, annotation] = name.split('@');
+      const type = this.properties.get(propertyName);
+      if (!type) {
+        errors.push(`${propertyName} is not in the schema`);
+        continue;
+      }
+
+      if (annotation !== undefined) {
+        if (
+          annotation === 'odata.type' &&
+          value !== collectionODataTypes[type]
+        ) {
+          errors.push(`${name} must be ${collectionODataTypes[type]}`);
+        }
+      } else if (
+        value !== null &&
+        value !== undefined &&
+        !isOfType(value, type)
+      ) {
+        errors.push(`${name} must be of type ${type}`);
+      }
+    }
+
+    // Microsoft Graph can't tell a collection from a single
+    // value unless the collection's type is given
+    for (const [name, type] of this.properties) {
+      const odataType = collectionODataTypes[type];
+      if (
+        odataType &&
+        Array.isArray(values[name]) &&
+        !(`${name}@odata.type` in values)
+      ) {
+        errors.push(`${name}@odata.type must be ${odataType}`);
+      }
+    }
+
+    return errors;
+  }
+}
+
+/**
+ * Checks if a property value has the type given in the schema.
+ *
+ * @param value - The value.
+ * @param type - The lower-case type of the property.
+ * @returns True if the value has the type.
+ */
+function isOfType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'int64':
+      return Number.isInteger(value);
+    case 'double':
+      return typeof value === 'number';
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'datetime':
+      return typeof value === 'string' && !isNaN(Date.parse(value));
+    case 'stringcollection':
+    case 'int64collection':
+    case 'doublecollection':
+    case 'datetimecollection': {
+      const elementType = type.replace('collection', '');
+      return (
+        Array.isArray(value) &&
+        value.every((element) => isOfType(element, elementType))
+      );
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Compares strings by their UTF-16 code units, so that the
+ * order doesn't depend on the locale.
+ */
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
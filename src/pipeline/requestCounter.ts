@@ -0,0 +1,38 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Context, Middleware } from '@microsoft/microsoft-graph-client';
+
+/**
+ * Microsoft Graph client middleware that counts the requests sent.
+ *
+ * @remarks
+ * Add it to the middleware chain after the retry handler
+ * so that each retry is counted as a separate request.
+ */
+export default class RequestCounter implements Middleware {
+  /**
+   * The number of requests sent.
+   */
+  public count = 0;
+  private next?: Middleware;
+
+  /**
+   * Counts a request and passes it to the next middleware in the chain.
+   *
+   * @param context - The request context.
+   */
+  public async execute(context: Context): Promise<void> {
+    this.count++;
+    await this.next?.execute(context);
+  }
+
+  /**
+   * Sets the next middleware in the chain.
+   *
+   * @param next - The next middleware.
+   */
+  public setNext(next: Middleware): void {
+    this.next = next;
+  }
+}
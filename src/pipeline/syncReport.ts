@@ -0,0 +1,246 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { writeFile } from 'fs/promises';
+
+/**
+ * An error that occurred during a push.
+ */
+export type SyncError = {
+  /**
+   * The ID of the item, or the name of the repository
+   * if the error wasn't specific to one item.
+   */
+  id: string;
+  /**
+   * What went wrong.
+   */
+  reason: string;
+};
+
+/**
+ * The results of a push, as written to a report file.
+ */
+export type SyncReportSummary = {
+  connectionId: string;
+  itemType: string;
+  startTime: string;
+  endTime?: string;
+  durationSeconds?: number;
+  // False if any item or list of items failed
+  succeeded: boolean;
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  // Items counted as created, updated or skipped that are missing
+  // some of their activities, events or comments
+  incomplete: number;
+  activitiesAdded: number;
+  gitHubRequests: number;
+  graphRequests: number;
+  errors: SyncError[];
+};
+
+/**
+ * Collects the results of pushing items to a connection.
+ */
+export default class SyncReport {
+  private summary: SyncReportSummary;
+  private failedItemIds = new Set<string>();
+  private incompleteItemIds = new Set<string>();
+
+  /**
+   * Initializes a new instance of the SyncReport class.
+   *
+   * @param connectionId - The ID of the connection items are pushed to.
+   * @param itemType - The display name of the type of items pushed.
+   */
+  constructor(connectionId: string, itemType: string) {
+    this.summary = {
+      connectionId: connectionId,
+      itemType: itemType,
+      startTime: new Date().toISOString(),
+      succeeded: false,
+      created: 0,
+      updated: 0,
+      skipped: 0,
+      failed: 0,
+      incomplete: 0,
+      activitiesAdded: 0,
+      gitHubRequests: 0,
+      graphRequests: 0,
+      errors: [],
+    };
+  }
+
+  /**
+   * Gets the results of the push.
+   */
+  public get results(): Readonly<SyncReportSummary> {
+    return this.summary;
+  }
+
+  /**
+   * Records an item that was added to the connection.
+   *
+   * @param isNew - True if the item wasn't in the connection before.
+   */
+  public recordPushed(isNew: boolean) {
+    if (isNew) {
+      this.summary.created++;
+    } else {
+      this.summary.updated++;
+    }
+  }
+
+  /**
+   * Records an item that was intentionally not pushed.
+   */
+  public recordSkipped() {
+    this.summary.skipped++;
+  }
+
+  /**
+   * Records activities added to an item.
+   *
+   * @param count - The number of activities.
+   */
+  public recordActivities(count: number) {
+    this.summary.activitiesAdded += count;
+  }
+
+  /**
+   * Records an item that couldn't be pushed.
+   *
+   * @param itemId - The ID of the item.
+   * @param error - The error.
+   */
+  public recordFailedItem(itemId: string, error: unknown) {
+    this.failedItemIds.add(itemId);
+    this.incompleteItemIds.delete(itemId);
+    this.updateFailureCounts();
+    this.recordError(itemId, error);
+  }
+
+  /**
+   * Records an item that was pushed, or will be, without all of its
+   * activities, or that was left as it was because its events or
+   * comments couldn't be read. Unlike failed items, incomplete items
+   * are also counted as created, updated or skipped.
+   *
+   * @param itemId - The ID of the item.
+   * @param error - The error.
+   */
+  public recordIncompleteItem(itemId: string, error: unknown) {
+    if (!this.failedItemIds.has(itemId)) {
+      this.incompleteItemIds.add(itemId);
+      this.updateFailureCounts();
+    }
+    this.recordError(itemId, error);
+  }
+
+  /**
+   * Checks if an item couldn't be pushed completely.
+   *
+   * @param itemId - The ID of the item.
+   * @returns True if the item failed or is incomplete.
+   */
+  public hasFailed(itemId: string): boolean {
+    return this.failedItemIds.has(itemId) || this.incompleteItemIds.has(itemId);
+  }
+
+  /**
+   * Records an error that wasn't specific to one item, such
+   * as failing to get the list of issues for a repository.
+   *
+   * @param id - The name of what the error relates to.
+   * @param error - The error.
+   */
+  public recordError(id: string, error: unknown) {
+    this.summary.errors.push({ id: id, reason: getErrorReason(error) });
+  }
+
+  /**
+   * Records the end of the push.
+   *
+   * @param succeeded - False if any item or list of items failed.
+   * @param gitHubRequests - The number of requests sent to GitHub.
+   * @param graphRequests - The number of requests sent to Microsoft Graph.
+   */
+  public complete(
+    succeeded: boolean,
+    gitHubRequests: number,
+    graphRequests: number,
+  ) {
+    const endTime = new Date();
+    this.summary.succeeded = succeeded;
+    this.summary.gitHubRequests = gitHubRequests;
+    this.summary.graphRequests = graphRequests;
+    this.summary.endTime = endTime.toISOString();
+    this.summary.durationSeconds =
+      (endTime.getTime() - new Date(this.summary.startTime).getTime()) / 1000;
+  }
+
+  /**
+   * Prints the results of the push as tables.
+   */
+  public print() {
+    const summary = this.summary;
+    console.log(`\nPushed ${summary.itemType} to ${summary.connectionId}:`);
+    console.table({
+      Created: summary.created,
+      Updated: summary.updated,
+      Skipped: summary.skipped,
+      Failed: summary.failed,
+      Incomplete: summary.incomplete,
+      'Activities added': summary.activitiesAdded,
+      'GitHub requests': summary.gitHubRequests,
+      'Microsoft Graph requests': summary.graphRequests,
+      'Duration (seconds)': summary.durationSeconds,
+    });
+
+    if (summary.errors.length > 0) {
+      console.log('Errors:');
+      console.table(summary.errors);
+    }
+  }
+
+  /**
+   * Updates the counts of failed and incomplete items.
+   */
+  private updateFailureCounts() {
+    this.summary.failed = this.failedItemIds.size;
+    this.summary.incomplete = this.incompleteItemIds.size;
+  }
+
+  /**
+   * Writes the results of the push to a JSON file.
+   *
+   * @param reportFile - The path to the file.
+   */
+  public async saveAsync(reportFile: string): Promise<void> {
+    await writeFile(reportFile, JSON.stringify(this.summary, null, 2));
+  }
+}
+
+/**
+ * Gets a short description of an error from GitHub or Microsoft Graph.
+ *
+ * @param error - The error.
+ * @returns The description.
+ */
+function getErrorReason(error: unknown): string {
+  if (error instanceof Error) {
+    // Both Octokit's RequestError and Microsoft Graph's
+    // GraphError include the HTTP status code
+    const { status, statusCode } = error as {
+      status?: number;
+      statusCode?: number;
+    };
+    const code = status ?? statusCode;
+    return code ? `${code}: ${error.message}` : error.message;
+  }
+
+  return JSON.stringify(error);
+}
@@ -0,0 +1,278 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import e, { Request, Response } from 'express';
+import Router from 'express-promise-router';
+
+import SearchConnectorService from './searchConnectorService.js';
+import ServiceProvider from './serviceProvider.js';
+
+/**
+ * The parts of a GitHub webhook payload used to find the affected item.
+ */
+type WebhookPayload = {
+  action?: string;
+  repository?: {
+    id: number;
+    name: string;
+    owner: { login: string };
+  };
+  issue?: {
+    number: number;
+    pull_request?: unknown;
+  };
+  pull_request?: {
+    number: number;
+  };
+};
+
+export type GitHubWebhookServiceOptions = {
+  /**
+   * The secret set on the webhook in GitHub, used to verify deliveries.
+   */
+  webhookSecret?: string;
+  /**
+   * The connection to update when issues change.
+   */
+  issuesConnectionId?: string;
+  /**
+   * The connection to update when pull requests change.
+   */
+  pullRequestsConnectionId?: string;
+  /**
+   * The connection to update when repositories change.
+   */
+  repositoriesConnectionId?: string;
+};
+
+export default class GitHubWebhookService {
+  /**
+   * Handles webhook deliveries on `POST /github/webhook`. Add it to the
+   * Express app before any middleware that parses request bodies.
+   */
+  public readonly router = Router();
+
+  private serviceProvider: ServiceProvider;
+  private webhookSecret: string;
+  private issuesConnectionId?: string;
+  private pullRequestsConnectionId?: string;
+  private repositoriesConnectionId?: string;
+
+  /**
+   * Initializes a new instance of the GitHubWebhookService class.
+   *
+   * @param serviceProvider - Provides the services used to update items in each connection.
+   * @param options - Contains the options for the class.
+   */
+  constructor(
+    serviceProvider: ServiceProvider,
+    options: GitHubWebhookServiceOptions,
+  ) {
+    if (!options.webhookSecret) {
+      throw new Error('Invalid GitHub webhook details, please see README');
+    }
+
+    this.serviceProvider = serviceProvider;
+    this.webhookSecret = options.webhookSecret;
+    this.issuesConnectionId = options.issuesConnectionId;
+    this.pullRequestsConnectionId = options.pullRequestsConnectionId;
+    this.repositoriesConnectionId = options.repositoriesConnectionId;
+
+    // The signature is calculated from the raw request body
+    this.router.post(
+      '/github/webhook',
+      e.raw({ type: '*/*' }),
+      (req: Request, res: Response) => this.processRequest(req, res),
+    );
+  }
+
+  /**
+   * Function that processes webhook deliveries.
+   *
+   * @param req - The incoming request.
+   * @param res - The outgoing response.
+   */
+  private async processRequest(req: Request, res: Response) {
+    const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    if (!this.isSignatureValid(body, req.header('X-Hub-Signature-256'))) {
+      console.log('Received GitHub webhook delivery with invalid signature');
+      res.sendStatus(401);
+      return;
+    }
+
+    const event = req.header('X-GitHub-Event');
+    let payload: WebhookPayload;
+    try {
+      payload = JSON.parse(body.toString('utf-8')) as WebhookPayload;
+    } catch {
+      res.sendStatus(400);
+      return;
+    }
+
+    // Return 202 so GitHub doesn't time out while the item is updated
+    res.sendStatus(202);
+
+    if (!payload.repository) {
+      return;
+    }
+
+    console.log(
+      `Received GitHub ${event} event (${payload.action}) for repository ${payload.repository.name}`,
+    );
+
+    try {
+      await this.processEventAsync(event, payload);
+    } catch (error) {
+      console.log(
+        `Error processing GitHub webhook: ${JSON.stringify(error, null, 2)}`,
+      );
+    }
+  }
+
+  /**
+   * Re-ingests or removes the item affected by a webhook event.
+   *
+   * @param event - The name of the event.
+   * @param payload - The event payload.
+   */
+  private async processEventAsync(
+    event: string | undefined,
+    payload: WebhookPayload,
+  ) {
+    const repository = payload.repository!;
+
+    switch (event) {
+      case 'issues': {
+        const ingestionService = this.getIngestionService(
+          this.issuesConnectionId,
+          repository,
+        );
+        if (ingestionService && payload.issue) {
+          if (
+            payload.action === 'deleted' ||
+            payload.action === 'transferred'
+          ) {
+            await ingestionService.removeItemAsync(
+              this.issuesConnectionId!,
+              SearchConnectorService.getIssueItemId(
+                repository.name,
+                payload.issue.number,
+              ),
+            );
+          } else {
+            await ingestionService.syncIssueAsync(
+              this.issuesConnectionId!,
+              repository.name,
+              payload.issue.number,
+            );
+          }
+        }
+        break;
+      }
+      case 'issue_comment': {
+        // Comments are part of an issue's content. Comments on
+        // pull requests aren't ingested.
+        const ingestionService = this.getIngestionService(
+          this.issuesConnectionId,
+          repository,
+        );
+        if (ingestionService && payload.issue && !payload.issue.pull_request) {
+          await ingestionService.syncIssueAsync(
+            this.issuesConnectionId!,
+            repository.name,
+            payload.issue.number,
+          );
+        }
+        break;
+      }
+      case 'pull_request': {
+        const ingestionService = this.getIngestionService(
+          this.pullRequestsConnectionId,
+          repository,
+        );
+        if (ingestionService && payload.pull_request) {
+          await ingestionService.syncPullRequestAsync(
+            this.pullRequestsConnectionId!,
+            repository.name,
+            payload.pull_request.number,
+          );
+        }
+        break;
+      }
+      case 'repository': {
+        const ingestionService = this.getIngestionService(
+          this.repositoriesConnectionId,
+          repository,
+        );
+        if (ingestionService) {
+          if (
+            payload.action === 'deleted' ||
+            payload.action === 'transferred'
+          ) {
+            await ingestionService.removeItemAsync(
+              this.repositoriesConnectionId!,
+              SearchConnectorService.getRepositoryItemId(repository.id),
+            );
+          } else {
+            await ingestionService.syncRepositoryAsync(
+              this.repositoriesConnectionId!,
+              repository.id,
+              repository.name,
+            );
+          }
+        }
+        break;
+      }
+      default:
+        // Including the ping event sent when the webhook is created
+        break;
+    }
+  }
+
+  /**
+   * Gets the ingestion service for the connection that an event
+   * updates, if the repository belongs to the connection's owner.
+   *
+   * @param connectionId - The connection ID of the connection, if configured.
+   * @param repository - The repository in the event payload.
+   * @returns The ingestion service, or undefined if the event should be ignored.
+   */
+  private getIngestionService(
+    connectionId: string | undefined,
+    repository: NonNullable<WebhookPayload['repository']>,
+  ) {
+    if (!connectionId) {
+      return undefined;
+    }
+
+    const owner =
+      this.serviceProvider.getConnectionSettings(connectionId).owner;
+    if (repository.owner.login.toLowerCase() !== owner?.toLowerCase()) {
+      return undefined;
+    }
+
+    return this.serviceProvider.getServices(connectionId).ingestionService;
+  }
+
+  /**
+   * Verifies that a webhook delivery was signed with the webhook secret.
+   *
+   * @param body - The raw request body.
+   * @param signature - The value of the X-Hub-Signature-256 header.
+   * @returns A value indicating if the signature is valid.
+   */
+  public isSignatureValid(body: Buffer, signature?: string): boolean {
+    if (!signature) {
+      return false;
+    }
+
+    const expected = Buffer.from(
+      `sha256=${createHmac('sha256', this.webhookSecret).update(body).digest('hex')}`,
+    );
+    const actual = Buffer.from(signature);
+    return (
+      actual.length === expected.length && timingSafeEqual(actual, expected)
+    );
+  }
+}
@@ -0,0 +1,1928 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { createHash } from 'crypto';
+import { existsSync } from 'fs';
+import { ExternalConnectors } from '@microsoft/microsoft-graph-types';
+import { marked, Tokens } from 'marked';
+
+import { ItemTypeChoice, itemTypes } from '../menu.js';
+import PlainTextRenderer from '../markdown/plainTextRenderer.js';
+import SearchConnectorService from './searchConnectorService.js';
+import RepositoryService, {
+  Collaborator,
+  Discussion,
+  GitTreeEntry,
+  Issue,
+  IssueComment,
+  IssueEvent,
+  Release,
+  RepoEvent,
+  Repository,
+  Team,
+} from './repositoryService.js';
+import StateService from './stateService.js';
+import ConcurrencyLimiter from '../pipeline/concurrencyLimiter.js';
+import SyncReport from '../pipeline/syncReport.js';
+import ItemExport from '../pipeline/itemExport.js';
+import ExternalActivityWithType from '../types/externalActivityWithType.js';
+
+/**
+ * Tracks the items found in GitHub and pushed to a connection during a push.
+ */
+type Crawl = {
+  // IDs of items found in GitHub
+  foundItemIds: Set<string>;
+  // IDs of items successfully added or updated
+  pushedItemIds: Set<string>;
+  // IDs of items in the connection before the push
+  ingestedItemIds: Set<string>;
+  // False if a list of items couldn't be retrieved from GitHub,
+  // in which case items missing from the crawl may still exist
+  complete: boolean;
+  // The results of the push
+  report: SyncReport;
+  // How the items found are pushed
+  options: CrawlOptions;
+  // The hash of each item pushed, or skipped because it's unchanged
+  itemHashes: Map<string, string>;
+  // IDs of items skipped because they haven't changed since they were pushed
+  unchangedItemIds: Set<string>;
+  // The event IDs of the activities added to each item, by item ID
+  postedActivityIds: Map<string, string[]>;
+};
+
+/**
+ * How the items found during a push are pushed.
+ */
+export type CrawlOptions = {
+  // Collects the items instead of pushing them
+  dryRun?: ItemExport;
+  // Collects the items pushed, so they can be restored later
+  backup?: ItemExport;
+  // Push items even if they haven't changed since they were last pushed
+  force?: boolean;
+  // Add all of each item's activities, even those already added
+  backfillActivities?: boolean;
+};
+
+/**
+ * How items of one type are found in and pushed from a repository.
+ */
+type RepositoryItemSource<T> = {
+  // The name of the items in messages, such as `pull requests`
+  name: string;
+  // If set, only repositories for which this returns true are read
+  includesRepository?: (repo: Repository) => boolean;
+  // Gets the items in a repository
+  getItemsAsync: (repo: Repository) => Promise<T[]>;
+  // Pushes an item, returning true if it was pushed successfully
+  pushItemAsync: (
+    repo: Repository,
+    item: T,
+    acl: ExternalConnectors.Acl[],
+    crawl: Crawl,
+  ) => Promise<boolean>;
+};
+
+export type IngestionServiceOptions = {
+  /**
+   * The maximum number of items to process at the same time. Requests
+   * to GitHub and Microsoft Graph are further limited by the
+   * repository and connector services. Defaults to 8.
+   */
+  concurrency?: number;
+};
+
+export type PushOptions = {
+  /**
+   * If set, the items and activities are written to this file as
+   * newline-delimited JSON instead of being pushed, and the connection's
+   * state isn't changed. Items are checked against the schema registered
+   * for the connection, or the current schema for the item type if none
+   * is registered.
+   */
+  dryRunFile?: string;
+  /**
+   * If set, the items and activities pushed are also recorded in this
+   * file, so that they can be restored with restoreItemsAsync without
+   * getting them from GitHub again. Incremental pushes update the items
+   * already in the file, and full pushes replace it. Ignored during a dry run.
+   */
+  backupFile?: string;
+  /**
+   * If true, items are pushed even if their properties, content and
+   * ACL haven't changed since they were last pushed.
+   */
+  force?: boolean;
+  /**
+   * If true, all of each item's activities are added, even those that
+   * were added by an earlier push, and even if the item hasn't changed.
+   */
+  backfillActivities?: boolean;
+};
+
+export default class IngestionService {
+  private connectorService: SearchConnectorService;
+  private repoService: RepositoryService;
+  private stateService: StateService;
+  private itemLimiter: ConcurrencyLimiter;
+
+  // Markdown to plain text renderer
+  private plainText = new PlainTextRenderer();
+
+  /**
+   * Initializes a new instance of the IngestionService class.
+   *
+   * @param connectorService - The connector service.
+   * @param repoService - The repository service.
+   * @param stateService - The state service.
+   * @param options - Contains the options for the class.
+   */
+  constructor(
+    connectorService: SearchConnectorService,
+    repoService: RepositoryService,
+    stateService: StateService,
+    options: IngestionServiceOptions = {},
+  ) {
+    this.connectorService = connectorService;
+    this.repoService = repoService;
+    this.stateService = stateService;
+    this.itemLimiter = new ConcurrencyLimiter(options.concurrency ?? 8);
+  }
+
+  /**
+   * Push items of a type from GitHub to a connection.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param itemType - The type of items to push.
+   * @param incremental - If true, only push issues updated since the last successful sync.
+   * @param options - Contains the options for the push.
+   * @returns The results of the push, which are also printed.
+   */
+  public async pushItemsAsync(
+    connectionId: string,
+    itemType: ItemTypeChoice,
+    incremental: boolean,
+    options: PushOptions = {},
+  ): Promise<SyncReport> {
+    const report = new SyncReport(connectionId, itemTypes[itemType]);
+    const gitHubRequestCount = this.repoService.requestCount;
+    const graphRequestCount = this.connectorService.requestCount;
+
+    const crawlOptions: CrawlOptions = {
+      force: options.force,
+      backfillActivities: options.backfillActivities,
+    };
+    if (options.dryRunFile) {
+      crawlOptions.dryRun = new ItemExport(
+        await this.getSchemaForDryRunAsync(connectionId, itemType),
+      );
+    } else if (options.backupFile) {
+      crawlOptions.backup =
+        incremental && existsSync(options.backupFile)
+          ? await ItemExport.loadAsync(options.backupFile)
+          : new ItemExport();
+    }
+
+    let succeeded = false;
+    switch (itemType) {
+      case ItemTypeChoice.Issues:
+        succeeded = await this.pushAllIssuesWithActivitiesAsync(
+          connectionId,
+          incremental,
+          report,
+          crawlOptions,
+        );
+        break;
+      case ItemTypeChoice.PullRequests:
+        succeeded = await this.pushAllPullRequestsAsync(
+          connectionId,
+          report,
+          crawlOptions,
+        );
+        break;
+      case ItemTypeChoice.Docs:
+        succeeded = await this.pushAllDocsAsync(
+          connectionId,
+          report,
+          crawlOptions,
+        );
+        break;
+      case ItemTypeChoice.Discussions:
+        succeeded = await this.pushAllDiscussionsAsync(
+          connectionId,
+          report,
+          crawlOptions,
+        );
+        break;
+      case ItemTypeChoice.Releases:
+        succeeded = await this.pushAllReleasesAsync(
+          connectionId,
+          report,
+          crawlOptions,
+        );
+        break;
+      default:
+        succeeded = await this.pushAllRepositoriesAsync(
+          connectionId,
+          report,
+          crawlOptions,
+        );
+    }
+
+    report.complete(
+      succeeded,
+      this.repoService.requestCount - gitHubRequestCount,
+      this.connectorService.requestCount - graphRequestCount,
+    );
+    report.print();
+
+    if (crawlOptions.dryRun && options.dryRunFile) {
+      await crawlOptions.dryRun.saveAsync(options.dryRunFile);
+      console.log(
+        `Dry run, ${crawlOptions.dryRun.itemCount} items written to ${options.dryRunFile} instead of being pushed`,
+      );
+    } else if (crawlOptions.backup && options.backupFile) {
+      await crawlOptions.backup.saveAsync(options.backupFile);
+      console.log(
+        `Backup of ${crawlOptions.backup.itemCount} items written to ${options.backupFile}`,
+      );
+    }
+
+    return report;
+  }
+
+  /**
+   * Get issues from configured GitHub repos and push to a connection.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param incremental - If true, only push issues updated since the last successful sync.
+   * @param report - Collects the results of the push.
+   * @param crawlOptions - How the items found are pushed.
+   * @returns True if all issues were pushed successfully.
+   */
+  public async pushAllIssuesWithActivitiesAsync(
+    connectionId: string,
+    incremental: boolean,
+    report: SyncReport,
+    crawlOptions: CrawlOptions = {},
+  ): Promise<boolean> {
+    const connectionState = this.stateService.getConnectionState(connectionId);
+
+    // Record the start time before fetching so that issues updated
+    // while this run is in progress are picked up by the next run
+    const syncStartTime = new Date().toISOString();
+    let since: string | undefined = undefined;
+    if (incremental) {
+      since = connectionState.lastSyncTime;
+      console.log(
+        since
+          ? `Pushing issues updated since ${since}`
+          : 'No previous sync found, pushing all issues',
+      );
+    }
+
+    let repos: Repository[] | undefined = undefined;
+    try {
+      repos = await this.repoService.getIssueRepositoriesAsync();
+    } catch (error) {
+      report.recordError('repositories', error);
+      console.log(
+        `Error getting repositories: ${JSON.stringify(error, null, 2)}`,
+      );
+      return false;
+    }
+
+    // Only advance the high-water mark if every issue was pushed
+    let succeeded = true;
+    const crawl = this.startCrawl(connectionId, report, crawlOptions);
+
+    for (const repo of repos) {
+      if (
+        !(await this.pushIssuesForRepositoryAsync(
+          connectionId,
+          repo,
+          crawl,
+          since,
+        ))
+      ) {
+        succeeded = false;
+      }
+    }
+
+    await this.recordCrawlAsync(connectionId, crawl, incremental);
+
+    if (succeeded) {
+      // Nothing is pushed during a dry run, so the
+      // next sync starts from the same time
+      if (!crawlOptions.dryRun) {
+        connectionState.lastSyncTime = syncStartTime;
+        await this.stateService.saveAsync();
+      }
+    } else {
+      console.log(
+        'One or more issues failed, the next incremental sync will retry them.',
+      );
+    }
+
+    return succeeded;
+  }
+
+  /**
+   * Get pull requests from configured GitHub repos and push to a connection.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param report - Collects the results of the push.
+   * @param crawlOptions - How the items found are pushed.
+   * @returns True if all pull requests were pushed successfully.
+   */
+  public async pushAllPullRequestsAsync(
+    connectionId: string,
+    report: SyncReport,
+    crawlOptions: CrawlOptions = {},
+  ): Promise<boolean> {
+    return this.pushFromEachRepositoryAsync(
+      connectionId,
+      report,
+      crawlOptions,
+      {
+        name: 'pull requests',
+        getItemsAsync: (repo) =>
+          this.repoService.getPullRequestsForRepositoryAsync(repo.name),
+        pushItemAsync: (repo, { number }, acl, crawl) =>
+          this.pushPullRequestAsync(connectionId, repo, number, acl, crawl),
+      },
+    );
+  }
+
+  /**
+   * Get repositories from configured GitHub owner and push to a connection.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param report - Collects the results of the push.
+   * @param crawlOptions - How the items found are pushed.
+   * @returns True if all repositories were pushed successfully.
+   */
+  public async pushAllRepositoriesAsync(
+    connectionId: string,
+    report: SyncReport,
+    crawlOptions: CrawlOptions = {},
+  ): Promise<boolean> {
+    let repos: Repository[] | undefined = undefined;
+    try {
+      repos = await this.repoService.getRepositoriesAsync();
+    } catch (error) {
+      report.recordError('repositories', error);
+      console.log(
+        `Error getting repositories: ${JSON.stringify(error, null, 2)}`,
+      );
+      return false;
+    }
+
+    let succeeded = true;
+    const crawl = this.startCrawl(connectionId, report, crawlOptions);
+
+    const results = await Promise.all(
+      (repos ?? []).map((repo) =>
+        this.itemLimiter.runAsync(() =>
+          this.pushRepositoryAsync(connectionId, repo, crawl),
+        ),
+      ),
+    );
+    if (results.includes(false)) {
+      succeeded = false;
+    }
+
+    await this.recordCrawlAsync(connectionId, crawl, false);
+
+    return succeeded;
+  }
+
+  /**
+   * Get Markdown documentation from configured GitHub repos and push to a connection.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param report - Collects the results of the push.
+   * @param crawlOptions - How the items found are pushed.
+   * @returns True if all documentation files were pushed successfully.
+   */
+  public async pushAllDocsAsync(
+    connectionId: string,
+    report: SyncReport,
+    crawlOptions: CrawlOptions = {},
+  ): Promise<boolean> {
+    return this.pushFromEachRepositoryAsync(
+      connectionId,
+      report,
+      crawlOptions,
+      {
+        name: 'documentation',
+        getItemsAsync: (repo) => this.repoService.getMarkdownFilesAsync(repo),
+        pushItemAsync: (repo, file, acl, crawl) =>
+          this.pushDocAsync(connectionId, repo, file, acl, crawl),
+      },
+    );
+  }
+
+  /**
+   * Get releases from configured GitHub repos and push to a connection.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param report - Collects the results of the push.
+   * @param crawlOptions - How the items found are pushed.
+   * @returns True if all releases were pushed successfully.
+   */
+  public async pushAllReleasesAsync(
+    connectionId: string,
+    report: SyncReport,
+    crawlOptions: CrawlOptions = {},
+  ): Promise<boolean> {
+    return this.pushFromEachRepositoryAsync(
+      connectionId,
+      report,
+      crawlOptions,
+      {
+        name: 'releases',
+        getItemsAsync: (repo) =>
+          this.repoService.getReleasesForRepositoryAsync(repo.name),
+        pushItemAsync: (repo, release, acl, crawl) =>
+          this.pushReleaseAsync(connectionId, repo, release, acl, crawl),
+      },
+    );
+  }
+
+  /**
+   * Get discussions from configured GitHub repos and push to a connection.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param report - Collects the results of the push.
+   * @param crawlOptions - How the items found are pushed.
+   * @returns True if all discussions were pushed successfully.
+   */
+  public async pushAllDiscussionsAsync(
+    connectionId: string,
+    report: SyncReport,
+    crawlOptions: CrawlOptions = {},
+  ): Promise<boolean> {
+    return this.pushFromEachRepositoryAsync(
+      connectionId,
+      report,
+      crawlOptions,
+      {
+        name: 'discussions',
+        includesRepository: (repo) => !!repo.has_discussions,
+        getItemsAsync: (repo) =>
+          this.repoService.getDiscussionsForRepositoryAsync(repo.name),
+        pushItemAsync: (repo, discussion, acl, crawl) =>
+          this.pushDiscussionAsync(connectionId, repo, discussion, acl, crawl),
+      },
+    );
+  }
+
+  /**
+   * Gets items of one type from each repository that issues are ingested
+   * from, and pushes them to a connection with the repository's ACL.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param report - Collects the results of the push.
+   * @param crawlOptions - How the items found are pushed.
+   * @param source - How the items are found in and pushed from a repository.
+   * @returns True if all items were pushed successfully.
+   */
+  private async pushFromEachRepositoryAsync<T>(
+    connectionId: string,
+    report: SyncReport,
+    crawlOptions: CrawlOptions,
+    source: RepositoryItemSource<T>,
+  ): Promise<boolean> {
+    let repos: Repository[] | undefined = undefined;
+    try {
+      repos = await this.repoService.getIssueRepositoriesAsync();
+    } catch (error) {
+      report.recordError('repositories', error);
+      console.log(
+        `Error getting repositories: ${JSON.stringify(error, null, 2)}`,
+      );
+      return false;
+    }
+
+    let succeeded = true;
+    const crawl = this.startCrawl(connectionId, report, crawlOptions);
+
+    for (const repo of repos) {
+      if (source.includesRepository && !source.includesRepository(repo)) {
+        continue;
+      }
+
+      console.log(`Getting ${source.name} for repository ${repo.name}...`);
+
+      // All items in the repository share the repository's ACL
+      let acl: ExternalConnectors.Acl[] = [];
+      try {
+        acl = await this.getAclForRepositoryAsync(repo);
+      } catch (error) {
+        succeeded = false;
+        crawl.complete = false;
+        crawl.report.recordError(repo.name, error);
+        console.log(
+          `Error getting repository permissions: ${JSON.stringify(error, null, 2)}`,
+        );
+        continue;
+      }
+
+      if (acl.length <= 0) {
+        console.log(
+          `No users or groups could be granted access to the repository, skipping ${source.name}.`,
+        );
+        continue;
+      }
+
+      let items: T[] = [];
+      try {
+        items = await source.getItemsAsync(repo);
+      } catch (error) {
+        succeeded = false;
+        crawl.complete = false;
+        crawl.report.recordError(repo.name, error);
+        console.log(
+          `Error getting ${source.name}: ${JSON.stringify(error, null, 2)}`,
+        );
+      }
+
+      const results = await Promise.all(
+        items.map((item) =>
+          this.itemLimiter.runAsync(() =>
+            source.pushItemAsync(repo, item, acl, crawl),
+          ),
+        ),
+      );
+      if (results.includes(false)) {
+        succeeded = false;
+      }
+    }
+
+    await this.recordCrawlAsync(connectionId, crawl, false);
+
+    return succeeded;
+  }
+
+  /**
+   * Get issues from a GitHub repo and push to a connection.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param repo - The repository to get issues from.
+   * @param crawl - Tracks the issues found and pushed.
+   * @param since - If set, only push issues updated since this time.
+   * @returns True if all issues were pushed successfully.
+   */
+  private async pushIssuesForRepositoryAsync(
+    connectionId: string,
+    repo: Repository,
+    crawl: Crawl,
+    since?: string,
+  ): Promise<boolean> {
+    if (!repo.has_issues) {
+      return true;
+    }
+
+    console.log(`Getting issues for repository ${repo.name}...`);
+    let succeeded = true;
+
+    // All issues in the repository share the repository's ACL
+    let acl: ExternalConnectors.Acl[] = [];
+    try {
+      acl = await this.getAclForRepositoryAsync(repo);
+    } catch (error) {
+      crawl.complete = false;
+      crawl.report.recordError(repo.name, error);
+      console.log(
+        `Error getting repository permissions: ${JSON.stringify(error, null, 2)}`,
+      );
+      return false;
+    }
+
+    if (acl.length <= 0) {
+      console.log(
+        'No users or groups could be granted access to the repository, skipping issues.',
+      );
+      return true;
+    }
+
+    let issues: Issue[] | undefined = undefined;
+    try {
+      issues = await this.repoService.getIssuesForRepositoryAsync(
+        repo.name,
+        since,
+      );
+    } catch (error) {
+      succeeded = false;
+      crawl.complete = false;
+      crawl.report.recordError(repo.name, error);
+      console.log(`Error getting issues: ${JSON.stringify(error, null, 2)}`);
+    }
+
+    // Issues updated since the last sync may no longer be ingested,
+    // for example because they were closed, in which case they're
+    // removed as they are when synced from a webhook
+    const results = await Promise.all(
+      (issues ?? []).map((issue) =>
+        this.itemLimiter.runAsync(() =>
+          this.repoService.includesIssue(issue)
+            ? this.pushIssueAsync(connectionId, repo, issue, acl, crawl)
+            : this.removeIssueAsync(connectionId, repo, issue, crawl),
+        ),
+      ),
+    );
+    if (results.includes(false)) {
+      succeeded = false;
+    }
+
+    return succeeded;
+  }
+
+  /**
+   * Removes an issue that is no longer ingested from a connection,
+   * if it was added to the connection.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param repo - The repository that contains the issue.
+   * @param issue - The issue.
+   * @param crawl - Tracks the issues found and pushed.
+   * @returns True if the issue was removed or wasn't in the connection.
+   */
+  private async removeIssueAsync(
+    connectionId: string,
+    repo: Repository,
+    issue: Issue,
+    crawl: Crawl,
+  ): Promise<boolean> {
+    const itemId = SearchConnectorService.getIssueItemId(
+      repo.name,
+      issue.number,
+    );
+    if (!crawl.ingestedItemIds.has(itemId)) {
+      return true;
+    }
+
+    if (crawl.options.dryRun) {
+      console.log(`Issue ${itemId} is no longer ingested and would be removed`);
+      return true;
+    }
+
+    return this.removeItemAsync(connectionId, itemId);
+  }
+
+  /**
+   * Push an issue and its activities to a connection.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param repo - The repository that contains the issue.
+   * @param issue - The issue.
+   * @param acl - The ACL for the issue.
+   * @param crawl - Tracks the issues found and pushed.
+   * @returns True if the issue was pushed successfully.
+   */
+  private async pushIssueAsync(
+    connectionId: string,
+    repo: Repository,
+    issue: Issue,
+    acl: ExternalConnectors.Acl[],
+    crawl: Crawl,
+  ): Promise<boolean> {
+    const itemId = SearchConnectorService.getIssueItemId(
+      repo.name,
+      issue.number,
+    );
+    crawl.foundItemIds.add(itemId);
+
+    let issueEvents: IssueEvent[];
+    let comments: IssueComment[];
+    try {
+      issueEvents = await this.repoService.getEventsForIssueAsync(
+        repo.name,
+        issue.number,
+      );
+      comments = await this.repoService.getCommentsForIssueAsync(
+        repo.name,
+        issue.number,
+      );
+    } catch (error) {
+      // Pushing the issue without its events or comments would remove
+      // them from the item, so the item in the connection is left as it is
+      if (crawl.ingestedItemIds.has(itemId)) {
+        crawl.report.recordIncompleteItem(itemId, error);
+        crawl.report.recordSkipped();
+      } else {
+        crawl.report.recordFailedItem(itemId, error);
+      }
+      console.log(
+        `Error getting events and comments for issue ${itemId}: ${JSON.stringify(error, null, 2)}`,
+      );
+      return false;
+    }
+
+    try {
+      const issueItem =
+        await this.connectorService.createExternalItemFromIssueAsync(
+          repo,
+          issue,
+          issueEvents,
+          comments,
+          acl,
+        );
+
+      // Generate content for the issue from the body of the issue
+      // followed by each comment with its author and time
+      let issueContent = await marked.parse(issue.body || '', {
+        async: true,
+        renderer: this.plainText,
+      });
+
+      for (const comment of comments) {
+        const commentContent = await marked.parse(comment.body || '', {
+          async: true,
+          renderer: this.plainText,
+        });
+        issueContent += `\n---\n${comment.user?.login ?? 'ghost'} commented on ${comment.created_at}:\n${commentContent}`;
+      }
+
+      issueItem.content = {
+        type: 'text',
+        value: issueContent,
+      };
+
+      const changed = await this.putItemAsync(connectionId, issueItem, crawl);
+      this.recordPushed(crawl, itemId);
+
+      const activities = [
+        ...(await this.connectorService.createExternalActivitiesFromIssueEventsAsync(
+          issueEvents,
+        )),
+        ...(await this.connectorService.createExternalActivitiesFromIssueCommentsAsync(
+          comments,
+        )),
+      ];
+      await this.addActivitiesAsync(connectionId, itemId, activities, crawl);
+      console.log(
+        `${changed ? 'Added/updated' : 'Skipped unchanged'} issue ${itemId}`,
+      );
+      return true;
+    } catch (error) {
+      this.recordFailure(crawl, itemId, error);
+      console.log(
+        `Error adding/updating issue ${itemId}: ${JSON.stringify(error, null, 2)}`,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Push a pull request and its activities to a connection.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param repo - The repository that contains the pull request.
+   * @param pullNumber - The pull request number.
+   * @param acl - The ACL for the pull request.
+   * @param crawl - Tracks the pull requests found and pushed.
+   * @returns True if the pull request was pushed successfully.
+   */
+  private async pushPullRequestAsync(
+    connectionId: string,
+    repo: Repository,
+    pullNumber: number,
+    acl: ExternalConnectors.Acl[],
+    crawl: Crawl,
+  ): Promise<boolean> {
+    const itemId = SearchConnectorService.getPullRequestItemId(
+      repo.name,
+      pullNumber,
+    );
+    crawl.foundItemIds.add(itemId);
+
+    try {
+      // The list of pull requests doesn't include details
+      // such as the merged state and changed files count
+      const pullRequest = await this.repoService.getPullRequestAsync(
+        repo.name,
+        pullNumber,
+      );
+      const reviews = await this.repoService.getReviewsForPullRequestAsync(
+        repo.name,
+        pullNumber,
+      );
+
+      const pullRequestItem =
+        await this.connectorService.createExternalItemFromPullRequestAsync(
+          repo,
+          pullRequest,
+          reviews,
+          acl,
+        );
+
+      pullRequestItem.content = {
+        type: 'text',
+        value: await marked.parse(pullRequest.body || '', {
+          async: true,
+          renderer: this.plainText,
+        }),
+      };
+
+      const changed = await this.putItemAsync(
+        connectionId,
+        pullRequestItem,
+        crawl,
+      );
+      this.recordPushed(crawl, itemId);
+
+      const activities =
+        await this.connectorService.createExternalActivitiesFromPullRequestAsync(
+          pullRequest,
+          reviews,
+        );
+      await this.addActivitiesAsync(connectionId, itemId, activities, crawl);
+      console.log(
+        `${changed ? 'Added/updated' : 'Skipped unchanged'} pull request ${itemId}`,
+      );
+      return true;
+    } catch (error) {
+      this.recordFailure(crawl, itemId, error);
+      console.log(
+        `Error adding/updating pull request ${itemId}: ${JSON.stringify(error, null, 2)}`,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Push a release to a connection.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param repo - The repository that contains the release.
+   * @param release - The release.
+   * @param acl - The ACL for the release.
+   * @param crawl - Tracks the releases found and pushed.
+   * @returns True if the release was pushed successfully.
+   */
+  private async pushReleaseAsync(
+    connectionId: string,
+    repo: Repository,
+    release: Release,
+    acl: ExternalConnectors.Acl[],
+    crawl: Crawl,
+  ): Promise<boolean> {
+    const itemId = SearchConnectorService.getReleaseItemId(repo, release);
+    crawl.foundItemIds.add(itemId);
+
+    try {
+      const releaseItem =
+        await this.connectorService.createExternalItemFromReleaseAsync(
+          repo,
+          release,
+          acl,
+        );
+
+      // Set content to the release notes
+      releaseItem.content = {
+        type: 'text',
+        value: await marked.parse(release.body || '', {
+          async: true,
+          renderer: this.plainText,
+        }),
+      };
+
+      const changed = await this.putItemAsync(connectionId, releaseItem, crawl);
+      this.recordPushed(crawl, itemId);
+      console.log(
+        `${changed ? 'Added/updated' : 'Skipped unchanged'} release ${itemId}`,
+      );
+      return true;
+    } catch (error) {
+      this.recordFailure(crawl, itemId, error);
+      console.log(
+        `Error adding/updating release ${itemId}: ${JSON.stringify(error, null, 2)}`,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Push a discussion and its activities to a connection.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param repo - The repository that contains the discussion.
+   * @param discussion - The discussion, including its comments.
+   * @param acl - The ACL for the discussion.
+   * @param crawl - Tracks the discussions found and pushed.
+   * @returns True if the discussion was pushed successfully.
+   */
+  private async pushDiscussionAsync(
+    connectionId: string,
+    repo: Repository,
+    discussion: Discussion,
+    acl: ExternalConnectors.Acl[],
+    crawl: Crawl,
+  ): Promise<boolean> {
+    const itemId = SearchConnectorService.getDiscussionItemId(
+      repo.name,
+      discussion.number,
+    );
+    crawl.foundItemIds.add(itemId);
+
+    try {
+      const discussionItem =
+        await this.connectorService.createExternalItemFromDiscussionAsync(
+          repo,
+          discussion,
+          acl,
+        );
+
+      // Generate content for the discussion by concatenating
+      // the body of the discussion + all comments
+      let discussionContent = await marked.parse(discussion.body || '', {
+        async: true,
+        renderer: this.plainText,
+      });
+
+      for (const comment of discussion.comments) {
+        discussionContent += `\n${await marked.parse(comment.body || '', {
+          async: true,
+          renderer: this.plainText,
+        })}`;
+      }
+
+      discussionItem.content = {
+        type: 'text',
+        value: discussionContent,
+      };
+
+      const changed = await this.putItemAsync(
+        connectionId,
+        discussionItem,
+        crawl,
+      );
+      this.recordPushed(crawl, itemId);
+
+      const activities =
+        await this.connectorService.createExternalActivitiesFromDiscussionAsync(
+          discussion,
+        );
+      await this.addActivitiesAsync(connectionId, itemId, activities, crawl);
+      console.log(
+        `${changed ? 'Added/updated' : 'Skipped unchanged'} discussion ${itemId}`,
+      );
+      return true;
+    } catch (error) {
+      this.recordFailure(crawl, itemId, error);
+      console.log(
+        `Error adding/updating discussion ${itemId}: ${JSON.stringify(error, null, 2)}`,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Push a Markdown documentation file to a connection.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param repo - The repository that contains the file.
+   * @param file - The tree entry for the file.
+   * @param acl - The ACL for the file.
+   * @param crawl - Tracks the files found and pushed.
+   * @returns True if the file was pushed successfully.
+   */
+  private async pushDocAsync(
+    connectionId: string,
+    repo: Repository,
+    file: GitTreeEntry,
+    acl: ExternalConnectors.Acl[],
+    crawl: Crawl,
+  ): Promise<boolean> {
+    const path = file.path!;
+    const itemId = SearchConnectorService.getDocItemId(repo, path);
+    crawl.foundItemIds.add(itemId);
+
+    try {
+      const markdown = await this.repoService.getFileContentAsync(
+        repo.name,
+        file.sha!,
+      );
+
+      // Use the first heading as the title, or the file name if there isn't one
+      const heading = marked
+        .lexer(markdown)
+        .find((token): token is Tokens.Heading => token.type === 'heading');
+      const title = heading?.text ?? path.split('/').pop()!;
+
+      const docItem = this.connectorService.createExternalItemFromDoc(
+        repo,
+        path,
+        title,
+        acl,
+      );
+
+      docItem.content = {
+        type: 'text',
+        value: await marked.parse(markdown, {
+          async: true,
+          renderer: this.plainText,
+        }),
+      };
+
+      const changed = await this.putItemAsync(connectionId, docItem, crawl);
+      this.recordPushed(crawl, itemId);
+      console.log(
+        `${changed ? 'Added/updated' : 'Skipped unchanged'} documentation ${itemId}`,
+      );
+      return true;
+    } catch (error) {
+      this.recordFailure(crawl, itemId, error);
+      console.log(
+        `Error adding/updating documentation ${itemId}: ${JSON.stringify(error, null, 2)}`,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Push a repository to a connection.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param repo - The repository.
+   * @param crawl - Tracks the repositories found and pushed.
+   * @returns True if the repository was pushed or skipped successfully.
+   */
+  private async pushRepositoryAsync(
+    connectionId: string,
+    repo: Repository,
+    crawl: Crawl,
+  ): Promise<boolean> {
+    const itemId = SearchConnectorService.getRepositoryItemId(repo.id);
+    crawl.foundItemIds.add(itemId);
+
+    let repoEvents: RepoEvent[] = [];
+    try {
+      repoEvents = await this.repoService.getEventsForRepoAsync(repo.name);
+    } catch (error) {
+      console.log(
+        `Error getting events for repository ${repo.name}: ${JSON.stringify(error, null, 2)}`,
+      );
+    }
+
+    let acl: ExternalConnectors.Acl[] = [];
+    try {
+      acl = await this.getAclForRepositoryAsync(repo);
+    } catch (error) {
+      crawl.complete = false;
+      crawl.report.recordFailedItem(itemId, error);
+      console.log(
+        `Error getting permissions for repository ${repo.name}: ${JSON.stringify(error, null, 2)}`,
+      );
+      return false;
+    }
+
+    if (acl.length <= 0) {
+      console.log(
+        `No users or groups could be granted access to repository ${repo.name}, skipping.`,
+      );
+      crawl.report.recordSkipped();
+      return true;
+    }
+
+    try {
+      const repoItem =
+        await this.connectorService.createExternalItemFromRepoAsync(
+          repo,
+          repoEvents,
+          acl,
+        );
+
+      if (repo.visibility === 'public') {
+        // For public repositories,
+        // set content to the README
+        try {
+          const readme = await this.repoService.getReadmeAsync(repo.name);
+
+          const readmeContent = Buffer.from(readme.content, 'base64').toString(
+            'utf-8',
+          );
+          if (readme) {
+            const plainContent = await marked.parse(readmeContent, {
+              async: true,
+              renderer: this.plainText,
+            });
+
+            repoItem.content = {
+              type: 'text',
+              value: plainContent,
+            };
+          }
+        } catch (error) {
+          console.log(
+            `Error getting README for repository ${repo.name}: ${JSON.stringify(error, null, 2)}`,
+          );
+        }
+      } else {
+        // For private repositories,
+        // set content to the JSON representation
+        repoItem.content = {
+          type: 'text',
+          value: JSON.stringify(repo),
+        };
+      }
+
+      const changed = await this.putItemAsync(connectionId, repoItem, crawl);
+      this.recordPushed(crawl, itemId);
+      console.log(
+        `${changed ? 'Added/updated' : 'Skipped unchanged'} repository ${repo.name}`,
+      );
+      return true;
+    } catch (error) {
+      this.recordFailure(crawl, itemId, error);
+      console.log(
+        `Error adding/updating repository ${repo.name}: ${JSON.stringify(error, null, 2)}`,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Push a single issue to a connection, or remove it from the
+   * connection if it no longer exists or is no longer ingested.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param repoName - The name of the repository that contains the issue.
+   * @param issueNumber - The issue number.
+   * @returns True if the issue was pushed or removed successfully.
+   */
+  public async syncIssueAsync(
+    connectionId: string,
+    repoName: string,
+    issueNumber: number,
+  ): Promise<boolean> {
+    const itemId = SearchConnectorService.getIssueItemId(repoName, issueNumber);
+
+    try {
+      if (this.repoService.includesRepository(repoName)) {
+        const repo = await this.repoService.getRepositoryAsync(repoName);
+        const issue = await this.repoService.getIssueAsync(
+          repoName,
+          issueNumber,
+        );
+
+        if (repo.has_issues && this.repoService.includesIssue(issue)) {
+          const acl = await this.getAclForRepositoryAsync(repo);
+          if (acl.length > 0) {
+            const crawl = this.startCrawl(
+              connectionId,
+              new SyncReport(connectionId, itemTypes[ItemTypeChoice.Issues]),
+            );
+            const succeeded = await this.pushIssueAsync(
+              connectionId,
+              repo,
+              issue,
+              acl,
+              crawl,
+            );
+            await this.recordCrawlAsync(connectionId, crawl, true);
+            return succeeded;
+          }
+        }
+      }
+    } catch (error) {
+      if (!isGone(error)) {
+        console.log(
+          `Error getting issue ${itemId}: ${JSON.stringify(error, null, 2)}`,
+        );
+        return false;
+      }
+    }
+
+    return this.removeItemAsync(connectionId, itemId);
+  }
+
+  /**
+   * Push a single pull request to a connection, or remove it from the
+   * connection if it no longer exists or is no longer ingested, for
+   * example because it was closed and only open pull requests are.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param repoName - The name of the repository that contains the pull request.
+   * @param pullNumber - The pull request number.
+   * @returns True if the pull request was pushed or removed successfully.
+   */
+  public async syncPullRequestAsync(
+    connectionId: string,
+    repoName: string,
+    pullNumber: number,
+  ): Promise<boolean> {
+    const itemId = SearchConnectorService.getPullRequestItemId(
+      repoName,
+      pullNumber,
+    );
+
+    try {
+      if (this.repoService.includesRepository(repoName)) {
+        const repo = await this.repoService.getRepositoryAsync(repoName);
+        const pullRequest = await this.repoService.getPullRequestAsync(
+          repoName,
+          pullNumber,
+        );
+
+        if (this.repoService.includesPullRequest(pullRequest)) {
+          const acl = await this.getAclForRepositoryAsync(repo);
+          if (acl.length > 0) {
+            const crawl = this.startCrawl(
+              connectionId,
+              new SyncReport(
+                connectionId,
+                itemTypes[ItemTypeChoice.PullRequests],
+              ),
+            );
+            const succeeded = await this.pushPullRequestAsync(
+              connectionId,
+              repo,
+              pullNumber,
+              acl,
+              crawl,
+            );
+            await this.recordCrawlAsync(connectionId, crawl, true);
+            return succeeded;
+          }
+        }
+      }
+    } catch (error) {
+      if (!isGone(error)) {
+        console.log(
+          `Error getting pull request ${itemId}: ${JSON.stringify(error, null, 2)}`,
+        );
+        return false;
+      }
+    }
+
+    return this.removeItemAsync(connectionId, itemId);
+  }
+
+  /**
+   * Push a single repository to a connection, or remove it from
+   * the connection if it no longer exists or can't be ingested.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param repoId - The ID of the repository.
+   * @param repoName - The name of the repository.
+   * @returns True if the repository was pushed or removed successfully.
+   */
+  public async syncRepositoryAsync(
+    connectionId: string,
+    repoId: number,
+    repoName: string,
+  ): Promise<boolean> {
+    const itemId = SearchConnectorService.getRepositoryItemId(repoId);
+
+    try {
+      const repo = await this.repoService.getRepositoryAsync(repoName);
+      const crawl = this.startCrawl(
+        connectionId,
+        new SyncReport(connectionId, itemTypes[ItemTypeChoice.Repositories]),
+      );
+      const succeeded = await this.pushRepositoryAsync(
+        connectionId,
+        repo,
+        crawl,
+      );
+      await this.recordCrawlAsync(connectionId, crawl, true);
+
+      // The repository is skipped if no users or groups can be granted access
+      if (!succeeded || crawl.foundItemIds.has(itemId)) {
+        return succeeded;
+      }
+    } catch (error) {
+      if (!isGone(error)) {
+        console.log(
+          `Error getting repository ${repoName}: ${JSON.stringify(error, null, 2)}`,
+        );
+        return false;
+      }
+    }
+
+    return this.removeItemAsync(connectionId, itemId);
+  }
+
+  /**
+   * Removes an item from a connection and from the connection's state.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param itemId - The ID of the item.
+   * @returns True if the item was removed or didn't exist.
+   */
+  public async removeItemAsync(
+    connectionId: string,
+    itemId: string,
+  ): Promise<boolean> {
+    try {
+      await this.deleteItemIfExistsAsync(connectionId, itemId);
+      console.log(`Removed item ${itemId}`);
+    } catch (error) {
+      console.log(`Error removing item: ${JSON.stringify(error, null, 2)}`);
+      return false;
+    }
+
+    const connectionState = this.stateService.getConnectionState(connectionId);
+    connectionState.ingestedItemIds = connectionState.ingestedItemIds?.filter(
+      (id) => id !== itemId,
+    );
+    connectionState.lastCrawlItemIds = connectionState.lastCrawlItemIds?.filter(
+      (id) => id !== itemId,
+    );
+    delete connectionState.itemHashes?.[itemId];
+    delete connectionState.postedActivityIds?.[itemId];
+    await this.stateService.saveAsync();
+
+    return true;
+  }
+
+  /**
+   * Deletes items that were added to a connection but were not
+   * found in GitHub by the last full push to the connection.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param dryRun - If true, list the stale items without deleting them.
+   * @returns True if all stale items were deleted successfully.
+   */
+  public async removeStaleItemsAsync(
+    connectionId: string,
+    dryRun: boolean,
+  ): Promise<boolean> {
+    const staleItemIds = this.getStaleItemIds(connectionId);
+    if (!staleItemIds) {
+      console.log(
+        'No full push has been recorded for this connection. Push all items before removing stale items.',
+      );
+      return false;
+    }
+
+    if (staleItemIds.length <= 0) {
+      console.log('No stale items found.');
+      return true;
+    }
+
+    if (dryRun) {
+      console.log(`${staleItemIds.length} stale item(s) would be removed:`);
+      for (const itemId of staleItemIds) {
+        console.log(`  ${itemId}`);
+      }
+      return true;
+    }
+
+    let succeeded = true;
+    const deletedItemIds = new Set<string>();
+    for (const itemId of staleItemIds) {
+      console.log(`Removing stale item ${itemId}`);
+      try {
+        await this.deleteItemIfExistsAsync(connectionId, itemId);
+        deletedItemIds.add(itemId);
+        console.log('DONE');
+      } catch (error) {
+        succeeded = false;
+        console.log(`Error removing item: ${JSON.stringify(error, null, 2)}`);
+      }
+    }
+
+    const connectionState = this.stateService.getConnectionState(connectionId);
+    connectionState.ingestedItemIds = connectionState.ingestedItemIds?.filter(
+      (itemId) => !deletedItemIds.has(itemId),
+    );
+    for (const itemId of deletedItemIds) {
+      delete connectionState.itemHashes?.[itemId];
+      delete connectionState.postedActivityIds?.[itemId];
+    }
+    await this.stateService.saveAsync();
+
+    return succeeded;
+  }
+
+  /**
+   * Gets the items that were added to a connection but were
+   * not found in GitHub by the last full push to the connection.
+   *
+   * @param connectionId - The ID of the connection.
+   * @returns The IDs of the stale items, or undefined if no full push has been recorded.
+   */
+  public getStaleItemIds(connectionId: string): string[] | undefined {
+    const connectionState = this.stateService.getConnectionState(connectionId);
+    if (!connectionState.lastCrawlItemIds) {
+      return undefined;
+    }
+
+    const foundItemIds = new Set(connectionState.lastCrawlItemIds);
+    return (connectionState.ingestedItemIds ?? []).filter(
+      (itemId) => !foundItemIds.has(itemId),
+    );
+  }
+
+  /**
+   * Pushes the items and activities in a backup to a connection, without
+   * getting them from GitHub.
+   *
+   * @remarks
+   * The connection must exist and have a schema that the items match.
+   * Restored items are recorded as ingested, but not as found in GitHub,
+   * so a full push followed by removing stale items removes any that
+   * no longer exist in GitHub. Activities that were already added to the
+   * connection are skipped, as they are when pushing.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param backupFile - The backup, written by a push with the backupFile option.
+   * @param backfillActivities - If true, all activities in the backup are
+   * added, even those that were already added.
+   * @returns The results of the restore, which are also printed.
+   */
+  public async restoreItemsAsync(
+    connectionId: string,
+    backupFile: string,
+    backfillActivities = false,
+  ): Promise<SyncReport> {
+    const report = new SyncReport(connectionId, 'items');
+    const graphRequestCount = this.connectorService.requestCount;
+
+    const backup = await ItemExport.loadAsync(backupFile);
+    const crawl = this.startCrawl(connectionId, report, {
+      backfillActivities: backfillActivities,
+    });
+    console.log(
+      `Restoring ${backup.itemCount} items from ${backupFile} to connection ${connectionId}...`,
+    );
+
+    const results = await Promise.all(
+      backup
+        .getItems()
+        .map(({ item, activities }) =>
+          this.itemLimiter.runAsync(() =>
+            this.restoreItemAsync(connectionId, item, activities, crawl),
+          ),
+        ),
+    );
+    await this.recordCrawlAsync(connectionId, crawl, true);
+
+    report.complete(
+      !results.includes(false),
+      0,
+      this.connectorService.requestCount - graphRequestCount,
+    );
+    report.print();
+    return report;
+  }
+
+  /**
+   * Pushes an item from a backup and its activities to a connection.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param item - The item.
+   * @param activities - The item's activities.
+   * @param crawl - Tracks the items pushed.
+   * @returns True if the item was pushed successfully.
+   */
+  private async restoreItemAsync(
+    connectionId: string,
+    item: ExternalConnectors.ExternalItem,
+    activities: ExternalActivityWithType[],
+    crawl: Crawl,
+  ): Promise<boolean> {
+    const itemId = item.id!;
+    try {
+      await this.sendItemAsync(connectionId, item, crawl);
+      this.recordPushed(crawl, itemId);
+      crawl.itemHashes.set(itemId, getItemHash(item));
+
+      const newActivities = this.getNewActivities(
+        connectionId,
+        itemId,
+        activities,
+        crawl,
+      );
+      await this.connectorService.addIssueActivitiesAsync(
+        connectionId,
+        itemId,
+        newActivities,
+      );
+      crawl.report.recordActivities(newActivities.length);
+      this.recordPostedActivities(crawl, itemId, activities);
+      console.log(`Restored item ${itemId}`);
+      return true;
+    } catch (error) {
+      this.recordFailure(crawl, itemId, error);
+      console.log(
+        `Error restoring item ${itemId}: ${JSON.stringify(error, null, 2)}`,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Deletes an item from a connection, ignoring items that don't exist.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param itemId - The ID of the item.
+   */
+  private async deleteItemIfExistsAsync(
+    connectionId: string,
+    itemId: string,
+  ): Promise<void> {
+    try {
+      await this.connectorService.deleteItemAsync(connectionId, itemId);
+    } catch (error) {
+      // Ignore items that are already deleted
+      if ((error as { statusCode?: number }).statusCode !== 404) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Adds or updates an item in a connection, or adds it
+   * to the crawl's export during a dry run, and records
+   * it in the crawl's backup if there is one.
+   *
+   * @remarks
+   * Unless the crawl is forced, items are skipped if their properties,
+   * content and ACL haven't changed since they were last pushed, as
+   * every update uses Microsoft Graph quota and is indexed again.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param item - The item.
+   * @param crawl - The crawl the item was found in.
+   * @returns False if the item was skipped because it hasn't changed.
+   * @throws Error
+   * During a dry run, if the item doesn't match the schema.
+   */
+  private async putItemAsync(
+    connectionId: string,
+    item: ExternalConnectors.ExternalItem,
+    crawl: Crawl,
+  ): Promise<boolean> {
+    if (crawl.options.dryRun) {
+      const errors = crawl.options.dryRun.addItem(item);
+      if (errors.length > 0) {
+        throw new Error(`Item doesn't match the schema: ${errors.join('; ')}`);
+      }
+      return true;
+    }
+
+    const itemId = item.id!;
+    const hash = getItemHash(item);
+    const connectionState = this.stateService.getConnectionState(connectionId);
+    const changed =
+      crawl.options.force || connectionState.itemHashes?.[itemId] !== hash;
+    if (changed) {
+      await this.sendItemAsync(connectionId, item, crawl);
+    } else {
+      crawl.unchangedItemIds.add(itemId);
+    }
+
+    crawl.itemHashes.set(itemId, hash);
+    crawl.options.backup?.addItem(item);
+    return changed;
+  }
+
+  /**
+   * Adds or updates an item in a connection.
+   *
+   * @remarks
+   * Activities sent with the item, such as when it was created, are
+   * only sent the first time it's pushed, like other activities.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param item - The item.
+   * @param crawl - The crawl the item was found in.
+   */
+  private async sendItemAsync(
+    connectionId: string,
+    item: ExternalConnectors.ExternalItem,
+    crawl: Crawl,
+  ): Promise<void> {
+    const itemActivities = (item.activities ??
+      []) as ExternalActivityWithType[];
+    const activities = this.getNewActivities(
+      connectionId,
+      item.id!,
+      itemActivities,
+      crawl,
+    );
+    await this.connectorService.addOrUpdateItemAsync(connectionId, {
+      ...item,
+      activities: activities.length > 0 ? activities : undefined,
+    });
+    this.recordPostedActivities(crawl, item.id!, itemActivities);
+  }
+
+  /**
+   * Adds activities to an item in a connection, or adds them to the
+   * crawl's export during a dry run, and records them in the crawl's
+   * backup if there is one.
+   *
+   * @remarks
+   * Each push builds all of an item's activities, so activities that were
+   * added by an earlier push are skipped, unless the crawl backfills them.
+   * Activities for items skipped because they haven't changed were already
+   * added when the item was pushed.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param itemId - The ID of the item.
+   * @param activities - The activities.
+   * @param crawl - The crawl the item was found in.
+   */
+  private async addActivitiesAsync(
+    connectionId: string,
+    itemId: string,
+    activities: ExternalActivityWithType[],
+    crawl: Crawl,
+  ): Promise<void> {
+    if (crawl.options.dryRun) {
+      crawl.options.dryRun.addActivities(itemId, activities);
+      crawl.report.recordActivities(activities.length);
+      return;
+    }
+
+    if (
+      crawl.options.backfillActivities ||
+      !crawl.unchangedItemIds.has(itemId)
+    ) {
+      const newActivities = this.getNewActivities(
+        connectionId,
+        itemId,
+        activities,
+        crawl,
+      );
+      await this.connectorService.addIssueActivitiesAsync(
+        connectionId,
+        itemId,
+        newActivities,
+      );
+      crawl.report.recordActivities(newActivities.length);
+      this.recordPostedActivities(crawl, itemId, activities);
+    }
+    crawl.options.backup?.addActivities(itemId, activities);
+  }
+
+  /**
+   * Gets the activities of an item that weren't added by an earlier push,
+   * or all of them if the crawl backfills activities.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param itemId - The ID of the item.
+   * @param activities - The activities.
+   * @param crawl - The crawl the item was found in.
+   * @returns The activities to add.
+   */
+  private getNewActivities(
+    connectionId: string,
+    itemId: string,
+    activities: ExternalActivityWithType[],
+    crawl: Crawl,
+  ): ExternalActivityWithType[] {
+    if (crawl.options.backfillActivities) {
+      return activities;
+    }
+
+    const postedActivityIds = new Set(
+      this.stateService.getConnectionState(connectionId).postedActivityIds?.[
+        itemId
+      ],
+    );
+    return activities.filter(
+      (activity) =>
+        !activity.eventId || !postedActivityIds.has(activity.eventId),
+    );
+  }
+
+  /**
+   * Records the event IDs of activities added to an item, in addition
+   * to those recorded for the item before.
+   *
+   * @param crawl - The crawl to record the activities in.
+   * @param itemId - The ID of the item.
+   * @param activities - The activities.
+   */
+  private recordPostedActivities(
+    crawl: Crawl,
+    itemId: string,
+    activities: ExternalActivityWithType[],
+  ) {
+    const eventIds = activities.flatMap((activity) =>
+      activity.eventId ? [activity.eventId] : [],
+    );
+    crawl.postedActivityIds.set(itemId, [
+      ...(crawl.postedActivityIds.get(itemId) ?? []),
+      ...eventIds,
+    ]);
+  }
+
+  /**
+   * Gets the schema to check items against during a dry run.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param itemType - The type of items in the connection.
+   * @returns The schema registered for the connection, or the current
+   * schema for the item type if the connection or its schema doesn't exist.
+   */
+  private async getSchemaForDryRunAsync(
+    connectionId: string,
+    itemType: ItemTypeChoice,
+  ): Promise<ExternalConnectors.Schema> {
+    try {
+      return await this.connectorService.getSchemaAsync(connectionId);
+    } catch (error) {
+      if ((error as { statusCode?: number }).statusCode !== 404) {
+        throw error;
+      }
+
+      console.log(
+        `No schema is registered for connection ${connectionId}, checking items against the current schema for ${itemTypes[itemType].toLowerCase()}`,
+      );
+      return SearchConnectorService.getSchemaForItemType(itemType);
+    }
+  }
+
+  /**
+   * Creates an empty crawl to track the items found and pushed during a push.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param report - Collects the results of the push.
+   * @param crawlOptions - How the items found are pushed.
+   * @returns The crawl.
+   */
+  private startCrawl(
+    connectionId: string,
+    report: SyncReport,
+    crawlOptions: CrawlOptions = {},
+  ): Crawl {
+    const connectionState = this.stateService.getConnectionState(connectionId);
+    return {
+      foundItemIds: new Set<string>(),
+      pushedItemIds: new Set<string>(),
+      ingestedItemIds: new Set(connectionState.ingestedItemIds),
+      complete: true,
+      report: report,
+      options: crawlOptions,
+      itemHashes: new Map<string, string>(),
+      unchangedItemIds: new Set<string>(),
+      postedActivityIds: new Map<string, string[]>(),
+    };
+  }
+
+  /**
+   * Records an item that was added to or updated in the
+   * connection, or skipped because it hasn't changed.
+   *
+   * @param crawl - The crawl to record the item in.
+   * @param itemId - The ID of the item.
+   */
+  private recordPushed(crawl: Crawl, itemId: string) {
+    if (crawl.unchangedItemIds.has(itemId)) {
+      crawl.report.recordSkipped();
+      return;
+    }
+
+    crawl.pushedItemIds.add(itemId);
+    crawl.report.recordPushed(!crawl.ingestedItemIds.has(itemId));
+  }
+
+  /**
+   * Records an item that failed. Items that were already pushed, or
+   * skipped because they haven't changed, when they failed, such as
+   * if their activities couldn't be added, are counted as incomplete
+   * instead, so that they aren't counted twice.
+   *
+   * @param crawl - The crawl the item was found in.
+   * @param itemId - The ID of the item.
+   * @param error - The error.
+   */
+  private recordFailure(crawl: Crawl, itemId: string, error: unknown) {
+    if (crawl.pushedItemIds.has(itemId) || crawl.unchangedItemIds.has(itemId)) {
+      crawl.report.recordIncompleteItem(itemId, error);
+    } else {
+      crawl.report.recordFailedItem(itemId, error);
+    }
+  }
+
+  /**
+   * Saves the items found and pushed during a push to the connection's state,
+   * so that items no longer in GitHub can be removed later.
+   *
+   * @param connectionId - The ID of the connection.
+   * @param crawl - The items found and pushed.
+   * @param incremental - True if only items updated since the last sync were pushed.
+   */
+  private async recordCrawlAsync(
+    connectionId: string,
+    crawl: Crawl,
+    incremental: boolean,
+  ): Promise<void> {
+    if (crawl.options.dryRun) {
+      // Nothing was pushed during a dry run
+      return;
+    }
+
+    const connectionState = this.stateService.getConnectionState(connectionId);
+
+    connectionState.ingestedItemIds = [
+      ...new Set([
+        ...(connectionState.ingestedItemIds ?? []),
+        ...crawl.pushedItemIds,
+      ]),
+    ];
+
+    // Items that failed after they were pushed, such as if their activities
+    // couldn't be added, are pushed again next time even if unchanged
+    connectionState.itemHashes ??= {};
+    for (const [itemId, hash] of crawl.itemHashes) {
+      if (crawl.report.hasFailed(itemId)) {
+        delete connectionState.itemHashes[itemId];
+      } else {
+        connectionState.itemHashes[itemId] = hash;
+      }
+    }
+
+    connectionState.postedActivityIds ??= {};
+    for (const [itemId, eventIds] of crawl.postedActivityIds) {
+      connectionState.postedActivityIds[itemId] = [
+        ...new Set([
+          ...(connectionState.postedActivityIds[itemId] ?? []),
+          ...eventIds,
+        ]),
+      ];
+    }
+
+    if (crawl.complete && !incremental) {
+      // Every item that still exists in GitHub was found
+      connectionState.lastCrawlItemIds = [...crawl.foundItemIds];
+    } else if (connectionState.lastCrawlItemIds) {
+      // Items found still exist, but items that
+      // weren't found may also still exist
+      connectionState.lastCrawlItemIds = [
+        ...new Set([
+          ...connectionState.lastCrawlItemIds,
+          ...crawl.foundItemIds,
+        ]),
+      ];
+    }
+
+    await this.stateService.saveAsync();
+  }
+
+  /**
+   * Gets the ACL for items from a repository, getting the
+   * repository's collaborators and teams from GitHub if needed.
+   *
+   * @param repo - The repository.
+   * @returns The ACL, which is empty if no users or groups could be granted access.
+   */
+  private async getAclForRepositoryAsync(
+    repo: Repository,
+  ): Promise<ExternalConnectors.Acl[]> {
+    let collaborators: Collaborator[] = [];
+    let teams: Team[] = [];
+    if (this.connectorService.requiresRepositoryPermissions(repo)) {
+      collaborators = await this.repoService.getCollaboratorsAsync(repo.name);
+      teams = await this.repoService.getTeamsForRepoAsync(repo.name);
+    }
+
+    return this.connectorService.createAclForRepositoryAsync(
+      repo,
+      collaborators,
+      teams,
+    );
+  }
+}
+
+/**
+ * Computes a hash of the properties, content and ACL of an item, which
+ * doesn't depend on the order of the keys of the objects in them.
+ *
+ * @param item - The item.
+ * @returns The hash, as a hex string.
+ */
+function getItemHash(item: ExternalConnectors.ExternalItem): string {
+  const json = JSON.stringify(
+    { properties: item.properties, content: item.content, acl: item.acl },
+    (key, value: unknown) =>
+      value && typeof value === 'object' && !Array.isArray(value)
+        ? Object.fromEntries(
+            Object.entries(value).sort(([a], [b]) => (a < b ? -1 : 1)),
+          )
+        : value,
+  );
+  return createHash('sha256').update(json).digest('hex');
+}
+
+/**
+ * Checks if a GitHub request failed because what was
+ * requested was deleted, transferred or never existed.
+ *
+ * @param error - The error from the request.
+ * @returns True if the error is 404 Not Found or 410 Gone.
+ */
+function isGone(error: unknown): boolean {
+  const status = (error as { status?: number }).status;
+  return status === 404 || status === 410;
+}
@@ -1,6 +1,7 @@
 // Copyright (c) Microsoft Corporation.
 // Licensed under the MIT license.
 
+import { Server } from 'http';
 import e, { Express, Request, Response } from 'express';
 import Router from 'express-promise-router';
 import jwt, { JwtHeader, JwtPayload, SigningKeyCallback } from 'jsonwebtoken';
@@ -12,6 +13,9 @@ import {
 } from '@microsoft/microsoft-graph-types';
 
 import SearchConnectorService from './searchConnectorService.js';
+import GitHubWebhookService from './gitHubWebhookService.js';
+import SchedulerService from './schedulerService.js';
+import SchemaMigrationService from './schemaMigrationService.js';
 import ConnectorData from '../types/connectorData.js';
 import { ItemTypeChoice } from '../menu.js';
 
@@ -30,6 +34,14 @@ export type M365AppConfigServiceOptions = {
    * The port number to listen on.
    */
   port: number;
+  /**
+   * If set, GitHub webhook deliveries are also handled.
+   */
+  gitHubWebhookService?: GitHubWebhookService;
+  /**
+   * If set, the scheduler's health and status endpoints are also handled.
+   */
+  schedulerService?: SchedulerService;
 };
 
 export default class M365AppConfigService {
@@ -39,9 +51,11 @@ export default class M365AppConfigService {
   private port: number;
 
   private connectorService: SearchConnectorService;
+  private schemaService: SchemaMigrationService;
 
   constructor(
     connectorService: SearchConnectorService,
+    schemaService: SchemaMigrationService,
     options: M365AppConfigServiceOptions,
   ) {
     if (!options.tenantId || !options.clientId) {
@@ -52,8 +66,17 @@ export default class M365AppConfigService {
     this.tenantId = options.tenantId;
     this.port = options.port;
     this.connectorService = connectorService;
+    this.schemaService = schemaService;
 
     this.app = e();
+    if (options.gitHubWebhookService) {
+      // Must be added before the JSON body parser, which
+      // would discard the raw body needed to verify signatures
+      this.app.use(options.gitHubWebhookService.router);
+    }
+    if (options.schedulerService) {
+      this.app.use(options.schedulerService.router);
+    }
     this.app.use(e.json());
     const router = Router();
     this.app.use(router);
@@ -63,11 +86,21 @@ export default class M365AppConfigService {
   }
 
   /**
-   * Start the Express app to listen on the specified port.
+   * Start the Express app to listen on the specified port, and resume
+   * waiting for any schema registrations interrupted by a restart.
+   *
+   * @returns The server, which can be closed to stop listening.
    */
-  public listen() {
-    this.app.listen(this.port, 'localhost', () => {
+  public listen(): Server {
+    return this.app.listen(this.port, 'localhost', () => {
       console.log(`Server running at http://localhost:${this.port}`);
+      // The server doesn't wait for the operations, so errors
+      // are logged here instead of being unhandled rejections
+      void this.schemaService.resumeSchemaOperationsAsync().catch((error) => {
+        console.log(
+          `Error resuming schema operations: ${JSON.stringify(error, null, 2)}`,
+        );
+      });
     });
   }
 
@@ -143,9 +176,9 @@ export default class M365AppConfigService {
                   console.log('Created connection successfully');
                   console.log('Registering schema, this may take some time...');
 
-                  await configService.connectorService.registerSchemaAsync(
+                  await configService.schemaService.registerSchemaAsync(
                     'GitHubIssuesM365',
-                    SearchConnectorService.issuesSchema,
+                    ItemTypeChoice.Issues,
                   );
                   console.log('Registered schema successfully');
                 } catch (error) {
@@ -4,6 +4,7 @@
 import { Octokit } from '@octokit/rest';
 import { retry } from '@octokit/plugin-retry';
 import { components } from '@octokit/openapi-types';
+import ConcurrencyLimiter from '../pipeline/concurrencyLimiter.js';
 
 const OctokitWithRetry = Octokit.plugin(retry);
 
@@ -16,27 +17,252 @@ export type IssueComment = components['schemas']['issue-comment'];
 export type IssueEvent = components['schemas']['issue-event'];
 export type Assignee = components['schemas']['simple-user'];
 export type Labels = components['schemas']['issue']['labels'];
+export type PullRequest = components['schemas']['pull-request'];
+export type PullRequestSimple = components['schemas']['pull-request-simple'];
+export type PullRequestReview = components['schemas']['pull-request-review'];
+export type GitHubUser = components['schemas']['public-user'];
+export type Collaborator = components['schemas']['collaborator'];
+export type Team = components['schemas']['team'];
+export type Release = components['schemas']['release'];
+export type GitTreeEntry = components['schemas']['git-tree']['tree'][number];
+export type Blob = components['schemas']['blob'];
+
+/**
+ * A GitHub user or app, as returned by the GraphQL API.
+ */
+export type GraphQLActor = {
+  login: string;
+};
+
+/**
+ * A comment on a discussion, as returned by the GraphQL API.
+ */
+export type DiscussionComment = {
+  id: string;
+  body: string;
+  createdAt: string;
+  author: GraphQLActor | null;
+};
+
+/**
+ * A discussion, as returned by the GraphQL API.
+ */
+export type Discussion = {
+  id: string;
+  number: number;
+  title: string;
+  body: string;
+  url: string;
+  createdAt: string;
+  updatedAt: string;
+  author: GraphQLActor | null;
+  category: { name: string };
+  isAnswered: boolean | null;
+  answer: DiscussionComment | null;
+  answerChosenAt: string | null;
+  answerChosenBy: GraphQLActor | null;
+  comments: DiscussionComment[];
+};
+
+type PageInfo = {
+  hasNextPage: boolean;
+  endCursor: string | null;
+};
+
+// Fields of a discussion comment requested from the GraphQL API
+const discussionCommentFields = `
+  id
+  body
+  createdAt
+  author { login }
+`;
+
+// Gets a page of discussions in a repository, with the first page of
+// comments on each discussion
+const discussionsQuery = `
+  query ($owner: String!, $repo: String!, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      discussions(first: 50, after: $cursor) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          id
+          number
+          title
+          body
+          url
+          createdAt
+          updatedAt
+          author { login }
+          category { name }
+          isAnswered
+          answer { ${discussionCommentFields} }
+          answerChosenAt
+          answerChosenBy { login }
+          comments(first: 100) {
+            pageInfo { hasNextPage endCursor }
+            nodes { ${discussionCommentFields} }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// Gets a further page of comments on a discussion
+const discussionCommentsQuery = `
+  query ($id: ID!, $cursor: String) {
+    node(id: $id) {
+      ... on Discussion {
+        comments(first: 100, after: $cursor) {
+          pageInfo { hasNextPage endCursor }
+          nodes { ${discussionCommentFields} }
+        }
+      }
+    }
+  }
+`;
+
+type DiscussionCommentsPage = {
+  pageInfo: PageInfo;
+  nodes: DiscussionComment[];
+};
+
+type DiscussionsQueryResponse = {
+  repository: {
+    discussions: {
+      pageInfo: PageInfo;
+      nodes: (Omit<Discussion, 'comments'> & {
+        comments: DiscussionCommentsPage;
+      })[];
+    };
+  };
+};
+
+type DiscussionCommentsQueryResponse = {
+  node: { comments: DiscussionCommentsPage };
+};
+
+/**
+ * The states of issues or pull requests to ingest.
+ */
+export type IssueState = 'open' | 'closed' | 'all';
 
 export type RepositoryServiceOptions = {
   gitHubToken?: string;
   gitHubOwner?: string;
+  /**
+   * The base URL of the GitHub REST API, for example to use GitHub
+   * Enterprise Server or a local test server. Defaults to `https://api.github.com`.
+   */
+  gitHubBaseUrl?: string;
+  /**
+   * The repository to ingest issues and pull requests from. If not set,
+   * they are ingested from all of the owner's repositories.
+   */
   gitHubRepo?: string;
+  /**
+   * Patterns of repository names to ingest issues and pull requests from when `gitHubRepo`
+   * is not set. `*` matches any characters. Defaults to all repositories.
+   */
+  includeRepos?: string[];
+  /**
+   * Patterns of repository names to not ingest issues and pull requests from when `gitHubRepo`
+   * is not set. `*` matches any characters.
+   */
+  excludeRepos?: string[];
+  /**
+   * The maximum number of GitHub requests to send at the same time. Defaults to 4.
+   */
+  concurrency?: number;
+  /**
+   * The states of issues to ingest. Defaults to `open`.
+   */
+  issueState?: IssueState;
+  /**
+   * If set, only closed issues that were closed within this many days are ingested.
+   */
+  closedWithinDays?: number;
+  /**
+   * The states of pull requests to ingest. Closed pull requests
+   * include merged ones. Defaults to `all`.
+   */
+  pullRequestState?: IssueState;
+  /**
+   * Paths of folders in a repository to ingest Markdown documentation
+   * from. An empty path ingests Markdown files anywhere in the
+   * repository. Defaults to `docs`.
+   */
+  docsPaths?: string[];
 };
 
 export default class RepositoryService {
   private gitHubClient: Octokit;
   private gitHubOwner: string;
-  private gitHubRepo: string;
+  private gitHubRepo?: string;
+  private includeRepos: RegExp[];
+  private excludeRepos: RegExp[];
+  private issueState: IssueState;
+  private closedWithinDays?: number;
+  private pullRequestState: IssueState;
+  private docsPaths: string[];
+  private sentRequestCount = 0;
 
   constructor(options: RepositoryServiceOptions) {
-    if (!options.gitHubToken || !options.gitHubOwner || !options.gitHubRepo) {
+    if (!options.gitHubToken || !options.gitHubOwner) {
       throw new Error('Invalid GitHub details, please see README');
     }
+
+    if (
+      options.issueState &&
+      !['open', 'closed', 'all'].includes(options.issueState)
+    ) {
+      throw new Error('Invalid issue state, please see README');
+    }
+
+    if (
+      options.pullRequestState &&
+      !['open', 'closed', 'all'].includes(options.pullRequestState)
+    ) {
+      throw new Error('Invalid pull request state, please see README');
+    }
+
+    if (
+      options.closedWithinDays !== undefined &&
+      !(options.closedWithinDays > 0)
+    ) {
+      throw new Error('Invalid closed issue window, please see README');
+    }
     this.gitHubClient = new OctokitWithRetry({
       auth: options.gitHubToken,
+      baseUrl: options.gitHubBaseUrl,
     });
+
+    // Limit the number of requests in flight, including
+    // each page requested when paginating
+    const limiter = new ConcurrencyLimiter(options.concurrency ?? 4);
+    this.gitHubClient.hook.wrap('request', (request, requestOptions) =>
+      limiter.runAsync(async () => {
+        this.sentRequestCount++;
+        return request(requestOptions);
+      }),
+    );
     this.gitHubOwner = options.gitHubOwner;
     this.gitHubRepo = options.gitHubRepo;
+    this.includeRepos = (options.includeRepos ?? ['*']).map(patternToRegExp);
+    this.excludeRepos = (options.excludeRepos ?? []).map(patternToRegExp);
+    this.issueState = options.issueState ?? 'open';
+    this.closedWithinDays = options.closedWithinDays;
+    this.pullRequestState = options.pullRequestState ?? 'all';
+    this.docsPaths = (options.docsPaths ?? ['docs']).map((path) =>
+      path.replace(/^\/+|\/+$/g, ''),
+    );
+  }
+
+  /**
+   * Gets the number of requests sent to GitHub.
+   */
+  public get requestCount(): number {
+    return this.sentRequestCount;
   }
 
   /**
@@ -65,6 +291,153 @@ export default class RepositoryService {
     }
   }
 
+  /**
+   * Gets the repositories to ingest issues and pull requests from. This is either the
+   * repository specified in app settings, or all of the owner's
+   * repositories that match the include and exclude patterns.
+   *
+   * @returns The list of repositories.
+   */
+  public async getIssueRepositoriesAsync(): Promise<Repository[]> {
+    if (this.gitHubRepo) {
+      return [await this.getRepositoryAsync(this.gitHubRepo)];
+    }
+
+    const repos = (await this.getRepositoriesAsync()) ?? [];
+    return repos.filter((repo) => this.includesRepository(repo.name));
+  }
+
+  /**
+   * Checks if issues and pull requests are ingested from a repository.
+   *
+   * @param repoName - The name of the repository.
+   * @returns True if the repository is configured to be ingested.
+   */
+  public includesRepository(repoName: string): boolean {
+    if (this.gitHubRepo) {
+      return this.gitHubRepo.toLowerCase() === repoName.toLowerCase();
+    }
+
+    return (
+      this.includeRepos.some((pattern) => pattern.test(repoName)) &&
+      !this.excludeRepos.some((pattern) => pattern.test(repoName))
+    );
+  }
+
+  /**
+   * Checks if an issue matches the configured issue state
+   * and closed issue window.
+   *
+   * @param issue - The issue.
+   * @returns True if the issue is configured to be ingested.
+   */
+  public includesIssue(issue: Issue): boolean {
+    if (issue.pull_request) {
+      // GitHub's REST API considers every pull request an issue
+      return false;
+    }
+
+    if (this.issueState !== 'all' && issue.state !== this.issueState) {
+      return false;
+    }
+
+    const closedAfter = this.getClosedAfter();
+    return (
+      !closedAfter ||
+      !issue.closed_at ||
+      new Date(issue.closed_at) >= closedAfter
+    );
+  }
+
+  /**
+   * Checks if a pull request matches the configured pull request state.
+   *
+   * @param pullRequest - The pull request.
+   * @returns True if the pull request is configured to be ingested.
+   */
+  public includesPullRequest(pullRequest: { state: string }): boolean {
+    return (
+      this.pullRequestState === 'all' ||
+      pullRequest.state === this.pullRequestState
+    );
+  }
+
+  /**
+   * Gets a repository.
+   *
+   * @param repoName - The name of the repository.
+   * @returns The repository.
+   */
+  public async getRepositoryAsync(repoName: string): Promise<Repository> {
+    const response = await this.gitHubClient.request(
+      'GET /repos/{owner}/{repo}',
+      {
+        owner: this.gitHubOwner,
+        repo: repoName,
+      },
+    );
+
+    return response.data as Repository;
+  }
+
+  /**
+   * Gets the users with access to a repository.
+   *
+   * @param repoName - The name of the repository.
+   * @returns The list of collaborators.
+   */
+  public async getCollaboratorsAsync(
+    repoName: string,
+  ): Promise<Collaborator[]> {
+    return (await this.gitHubClient.paginate(
+      'GET /repos/{owner}/{repo}/collaborators',
+      {
+        owner: this.gitHubOwner,
+        repo: repoName,
+        affiliation: 'all',
+      },
+    )) as Collaborator[];
+  }
+
+  /**
+   * Gets the teams with access to a repository.
+   *
+   * @param repoName - The name of the repository.
+   * @returns The list of teams.
+   */
+  public async getTeamsForRepoAsync(repoName: string): Promise<Team[]> {
+    try {
+      return (await this.gitHubClient.paginate(
+        'GET /repos/{owner}/{repo}/teams',
+        {
+          owner: this.gitHubOwner,
+          repo: repoName,
+        },
+      )) as Team[];
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) {
+        // Repositories owned by a user don't have teams
+        return [];
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Gets the public profile of a GitHub user.
+   *
+   * @param login - The GitHub login of the user.
+   * @returns The user's profile.
+   */
+  public async getUserAsync(login: string): Promise<GitHubUser> {
+    const response = await this.gitHubClient.request('GET /users/{username}', {
+      username: login,
+    });
+
+    return response.data as GitHubUser;
+  }
+
   /**
    * Gets the README for a repository.
    *
@@ -83,6 +456,130 @@ export default class RepositoryService {
     return response.data as Readme;
   }
 
+  /**
+   * Gets the Markdown files in the configured documentation
+   * folders on the default branch of a repository.
+   *
+   * @remarks
+   * GitHub cuts off the recursive tree of large repositories, in which
+   * case the folders that can contain documentation are read one at a time.
+   *
+   * @param repo - The repository.
+   * @returns The tree entries for the files.
+   */
+  public async getMarkdownFilesAsync(
+    repo: Repository,
+  ): Promise<GitTreeEntry[]> {
+    let response;
+    try {
+      response = await this.gitHubClient.request(
+        'GET /repos/{owner}/{repo}/git/trees/{tree_sha}',
+        {
+          owner: this.gitHubOwner,
+          repo: repo.name,
+          tree_sha: repo.default_branch,
+          recursive: '1',
+        },
+      );
+    } catch (error) {
+      if ((error as { status?: number }).status === 409) {
+        // Empty repositories don't have a tree
+        return [];
+      } else {
+        throw error;
+      }
+    }
+
+    if (!response.data.truncated) {
+      return response.data.tree.filter((entry) => this.isDocFile(entry));
+    }
+
+    console.log(
+      `The file tree for repository ${repo.name} is too large to get in one request, getting documentation folders one at a time.`,
+    );
+    return this.getMarkdownFilesInFolderAsync(
+      repo.name,
+      repo.default_branch,
+      '',
+    );
+  }
+
+  /**
+   * Gets the Markdown files in the documentation folders under a folder,
+   * reading each folder without the recursive flag.
+   *
+   * @param repoName - The name of the repository.
+   * @param treeSha - The SHA of the folder's tree, or a branch name.
+   * @param folder - The path of the folder, or an empty string for the root.
+   * @returns The tree entries for the files, with their full paths.
+   */
+  private async getMarkdownFilesInFolderAsync(
+    repoName: string,
+    treeSha: string,
+    folder: string,
+  ): Promise<GitTreeEntry[]> {
+    const response = await this.gitHubClient.request(
+      'GET /repos/{owner}/{repo}/git/trees/{tree_sha}',
+      {
+        owner: this.gitHubOwner,
+        repo: repoName,
+        tree_sha: treeSha,
+      },
+    );
+
+    if (response.data.truncated) {
+      throw new Error(
+        `The folder ${folder || '/'} in repository ${repoName} has too many entries to get documentation from`,
+      );
+    }
+
+    const files: GitTreeEntry[] = [];
+    for (const entry of response.data.tree) {
+      // Entries of a tree that isn't recursive have paths relative to it
+      const path = folder ? `${folder}/${entry.path}` : entry.path!;
+      if (entry.type === 'tree' && this.mayContainDocs(path)) {
+        files.push(
+          ...(await this.getMarkdownFilesInFolderAsync(
+            repoName,
+            entry.sha!,
+            path,
+          )),
+        );
+      } else if (this.isDocFile({ ...entry, path: path })) {
+        files.push({ ...entry, path: path });
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Gets the content of a file from its blob.
+   *
+   * @param repoName - The name of the repository.
+   * @param sha - The SHA of the file's blob.
+   * @returns The content of the file.
+   */
+  public async getFileContentAsync(
+    repoName: string,
+    sha: string,
+  ): Promise<string> {
+    const response = await this.gitHubClient.request(
+      'GET /repos/{owner}/{repo}/git/blobs/{file_sha}',
+      {
+        owner: this.gitHubOwner,
+        repo: repoName,
+        file_sha: sha,
+      },
+    );
+
+    const blob = response.data as Blob;
+    return Buffer.from(
+      blob.content,
+      blob.encoding === 'base64' ? 'base64' : 'utf-8',
+    ).toString('utf-8');
+  }
+
   /**
    * Gets activity events for a repository.
    *
@@ -100,27 +597,153 @@ export default class RepositoryService {
   }
 
   /**
-   * Gets all issues for the GitHub repository specified in app settings.
-   * @returns The list of issues.
+   * Gets the issues for a GitHub repository in the configured states. If a
+   * closed issue window is configured, issues closed before it are excluded.
+   * Issues updated since a given time are returned in every state instead,
+   * as ones that no longer match may have been ingested before, so use
+   * includesIssue to check which of them are ingested.
+   * @param repoName - The name of the repository.
+   * @param since - If set, only issues updated at or after this time (ISO 8601) are returned.
+   * @returns The list of issues, not including pull requests.
    */
-  public async getIssuesForRepositoryAsync(): Promise<Issue[]> {
-    return (await this.gitHubClient.paginate(
+  public async getIssuesForRepositoryAsync(
+    repoName: string,
+    since?: string,
+  ): Promise<Issue[]> {
+    if (since) {
+      const issues = (await this.gitHubClient.paginate(
+        'GET /repos/{owner}/{repo}/issues',
+        {
+          owner: this.gitHubOwner,
+          repo: repoName,
+          state: 'all',
+          since: since,
+        },
+      )) as Issue[];
+
+      // GitHub's REST API considers every pull request an issue
+      return issues.filter((issue) => !issue.pull_request);
+    }
+
+    // An issue is always updated when it's closed, so when only
+    // getting closed issues, ones updated before the closed issue
+    // window can be left out of the response
+    const closedAfter = this.getClosedAfter();
+    const issues = (await this.gitHubClient.paginate(
       'GET /repos/{owner}/{repo}/issues',
       {
         owner: this.gitHubOwner,
-        repo: this.gitHubRepo,
+        repo: repoName,
+        state: this.issueState,
+        since:
+          closedAfter && this.issueState === 'closed'
+            ? closedAfter.toISOString()
+            : undefined,
       },
     )) as Issue[];
+
+    return issues.filter((issue) => this.includesIssue(issue));
   }
 
+  /**
+   * Gets a GitHub issue.
+   * @param repoName - The name of the repository.
+   * @param issueNumber - The issue number.
+   * @returns The issue.
+   */
+  public async getIssueAsync(
+    repoName: string,
+    issueNumber: number,
+  ): Promise<Issue> {
+    const response = await this.gitHubClient.request(
+      'GET /repos/{owner}/{repo}/issues/{issue_number}',
+      {
+        owner: this.gitHubOwner,
+        repo: repoName,
+        issue_number: issueNumber,
+      },
+    );
+
+    return response.data as Issue;
+  }
+
+  /**
+   * Gets the pull requests for a GitHub repository in the configured states.
+   * @param repoName - The name of the repository.
+   * @returns The list of pull requests.
+   */
+  public async getPullRequestsForRepositoryAsync(
+    repoName: string,
+  ): Promise<PullRequestSimple[]> {
+    return (await this.gitHubClient.paginate(
+      'GET /repos/{owner}/{repo}/pulls',
+      {
+        owner: this.gitHubOwner,
+        repo: repoName,
+        state: this.pullRequestState,
+      },
+    )) as PullRequestSimple[];
+  }
+
+  /**
+   * Gets a pull request, including details such as the merged
+   * state and number of changed files that aren't returned
+   * when listing pull requests.
+   * @param repoName - The name of the repository.
+   * @param pullNumber - The pull request number.
+   * @returns The pull request.
+   */
+  public async getPullRequestAsync(
+    repoName: string,
+    pullNumber: number,
+  ): Promise<PullRequest> {
+    const response = await this.gitHubClient.request(
+      'GET /repos/{owner}/{repo}/pulls/{pull_number}',
+      {
+        owner: this.gitHubOwner,
+        repo: repoName,
+        pull_number: pullNumber,
+      },
+    );
+
+    return response.data as PullRequest;
+  }
+
+  /**
+   * Gets all reviews for a pull request.
+   * @param repoName - The name of the repository.
+   * @param pullNumber - The pull request number.
+   * @returns The list of reviews.
+   */
+  public async getReviewsForPullRequestAsync(
+    repoName: string,
+    pullNumber: number,
+  ): Promise<PullRequestReview[]> {
+    return (await this.gitHubClient.paginate(
+      'GET /repos/{owner}/{repo}/pulls/{pull_number}/reviews',
+      {
+        owner: this.gitHubOwner,
+        repo: repoName,
+        pull_number: pullNumber,
+      },
+    )) as PullRequestReview[];
+  }
+
+  /**
+   * Gets all comments for a GitHub issue.
+   * @param repoName - The name of the repository.
+   * @param issueNumber - The issue number.
+   * @returns The list of comments.
+   */
   public async getCommentsForIssueAsync(
+    repoName: string,
     issueNumber: number,
   ): Promise<IssueComment[]> {
     return (await this.gitHubClient.paginate(
       'GET /repos/{owner}/{repo}/issues/{issue_number}/comments',
       {
         owner: this.gitHubOwner,
-        repo: this.gitHubRepo,
+        repo: repoName,
         issue_number: issueNumber,
       },
     )) as IssueComment[];
@@ -128,19 +751,180 @@ export default class RepositoryService {
 
   /**
    * Gets all events for a GitHub issue.
+   * @param repoName - The name of the repository.
    * @param issueNumber - The issue number.
    * @returns The list of events.
    */
   public async getEventsForIssueAsync(
+    repoName: string,
     issueNumber: number,
   ): Promise<IssueEvent[]> {
     return (await this.gitHubClient.paginate(
       'GET /repos/{owner}/{repo}/issues/{issue_number}/events',
       {
         owner: this.gitHubOwner,
-        repo: this.gitHubRepo,
+        repo: repoName,
         issue_number: issueNumber,
       },
     )) as IssueEvent[];
   }
+
+  /**
+   * Checks if a tree entry is a Markdown file in one
+   * of the configured documentation folders.
+   *
+   * @param entry - The tree entry.
+   * @returns True if the entry is a documentation file.
+   */
+  private isDocFile(entry: GitTreeEntry): boolean {
+    return (
+      entry.type === 'blob' &&
+      !!entry.path?.toLowerCase().endsWith('.md') &&
+      this.includesDocPath(entry.path)
+    );
+  }
+
+  /**
+   * Checks if a file is in one of the configured documentation folders.
+   *
+   * @param path - The path of the file in the repository.
+   * @returns True if the file is in a documentation folder.
+   */
+  private includesDocPath(path: string): boolean {
+    const lowerPath = path.toLowerCase();
+    return this.docsPaths.some(
+      (docsPath) =>
+        docsPath === '' || lowerPath.startsWith(`${docsPath.toLowerCase()}/`),
+    );
+  }
+
+  /**
+   * Checks if a folder is, is in, or contains one of
+   * the configured documentation folders.
+   *
+   * @param path - The path of the folder in the repository.
+   * @returns True if the folder can contain documentation.
+   */
+  private mayContainDocs(path: string): boolean {
+    const lowerPath = `${path.toLowerCase()}/`;
+    return (
+      this.includesDocPath(lowerPath) ||
+      this.docsPaths.some((docsPath) =>
+        `${docsPath.toLowerCase()}/`.startsWith(lowerPath),
+      )
+    );
+  }
+
+  /**
+   * Gets all published releases for a GitHub repository.
+   * @param repoName - The name of the repository.
+   * @returns The list of releases, not including drafts.
+   */
+  public async getReleasesForRepositoryAsync(
+    repoName: string,
+  ): Promise<Release[]> {
+    const releases = (await this.gitHubClient.paginate(
+      'GET /repos/{owner}/{repo}/releases',
+      {
+        owner: this.gitHubOwner,
+        repo: repoName,
+      },
+    )) as Release[];
+
+    // Draft releases are only visible to users with push access
+    return releases.filter((release) => !release.draft);
+  }
+
+  /**
+   * Gets all discussions for a GitHub repository, including their comments.
+   * @param repoName - The name of the repository.
+   * @returns The list of discussions.
+   */
+  public async getDiscussionsForRepositoryAsync(
+    repoName: string,
+  ): Promise<Discussion[]> {
+    const discussions: Discussion[] = [];
+
+    // Discussions are only available from the GraphQL API
+    let cursor: string | null = null;
+    do {
+      const response: DiscussionsQueryResponse =
+        await this.gitHubClient.graphql<DiscussionsQueryResponse>(
+          discussionsQuery,
+          {
+            owner: this.gitHubOwner,
+            repo: repoName,
+            cursor: cursor,
+          },
+        );
+
+      const page = response.repository.discussions;
+      for (const discussion of page.nodes) {
+        const comments = [...discussion.comments.nodes];
+        let commentsPageInfo = discussion.comments.pageInfo;
+        while (commentsPageInfo.hasNextPage) {
+          const commentsPage = await this.getDiscussionCommentsAsync(
+            discussion.id,
+            commentsPageInfo.endCursor,
+          );
+          comments.push(...commentsPage.nodes);
+          commentsPageInfo = commentsPage.pageInfo;
+        }
+
+        discussions.push({ ...discussion, comments: comments });
+      }
+
+      cursor = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+    } while (cursor);
+
+    return discussions;
+  }
+
+  /**
+   * Gets a page of comments on a discussion.
+   * @param discussionId - The GraphQL node ID of the discussion.
+   * @param cursor - The cursor after which to get comments.
+   * @returns The page of comments.
+   */
+  private async getDiscussionCommentsAsync(
+    discussionId: string,
+    cursor: string | null,
+  ): Promise<DiscussionCommentsPage> {
+    const response =
+      await this.gitHubClient.graphql<DiscussionCommentsQueryResponse>(
+        discussionCommentsQuery,
+        {
+          id: discussionId,
+          cursor: cursor,
+        },
+      );
+
+    return response.node.comments;
+  }
+
+  /**
+   * Gets the start of the closed issue window.
+   *
+   * @returns The time, or undefined if closed issues aren't limited by when they were closed.
+   */
+  private getClosedAfter(): Date | undefined {
+    if (this.closedWithinDays === undefined || this.issueState === 'open') {
+      return undefined;
+    }
+
+    return new Date(Date.now() - this.closedWithinDays * 24 * 60 * 60 * 1000);
+  }
+}
+
+/**
+ * Converts a repository name pattern to a regular expression.
+ * @param pattern - The pattern, where `*` matches any characters.
+ * @returns The regular expression.
+ */
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}$`, 'i');
 }
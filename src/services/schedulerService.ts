@@ -0,0 +1,228 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Request, Response } from 'express';
+import Router from 'express-promise-router';
+
+import { itemTypes } from '../menu.js';
+import { ConnectionConfig } from '../config/appConfig.js';
+import CronSchedule from '../pipeline/cronSchedule.js';
+import ServiceProvider from './serviceProvider.js';
+import { ScheduledRunState } from './stateService.js';
+
+// setTimeout can't wait longer than about 24 days, so longer
+// waits are split up, checking again after this long
+const maxTimerDelayMilliseconds = 60 * 60 * 1000;
+
+/**
+ * A connection that is pushed to on a schedule.
+ */
+type ScheduledJob = {
+  connection: ConnectionConfig;
+  schedule: CronSchedule;
+  nextRunTime?: Date;
+  timer?: ReturnType<typeof setTimeout>;
+  // The push in progress, used to prevent overlapping runs
+  running?: Promise<void>;
+};
+
+/**
+ * The status of a scheduled connection, as returned by `GET /status`.
+ */
+export type ScheduledJobStatus = {
+  connectionId: string;
+  itemType: string;
+  schedule: string;
+  incremental: boolean;
+  running: boolean;
+  nextRunTime?: string;
+  lastRun?: ScheduledRunState;
+};
+
+export default class SchedulerService {
+  /**
+   * Handles `GET /healthz` and `GET /status`.
+   */
+  public readonly router = Router();
+
+  private serviceProvider: ServiceProvider;
+  private jobs: ScheduledJob[];
+  private started = false;
+
+  /**
+   * Initializes a new instance of the SchedulerService class.
+   *
+   * @param serviceProvider - Provides the services for each connection. Its
+   * connections that have a schedule are pushed to.
+   */
+  constructor(serviceProvider: ServiceProvider) {
+    this.serviceProvider = serviceProvider;
+    this.jobs = serviceProvider.connections
+      .filter((connection) => connection.schedule)
+      .map((connection) => ({
+        connection: connection,
+        schedule: new CronSchedule(connection.schedule!),
+      }));
+
+    this.router.get('/healthz', (req: Request, res: Response) => {
+      res.json({ status: this.started ? 'ok' : 'starting' });
+    });
+    this.router.get('/status', (req: Request, res: Response) => {
+      res.json({ connections: this.getStatus() });
+    });
+  }
+
+  /**
+   * The number of connections that have a schedule.
+   */
+  public get jobCount(): number {
+    return this.jobs.length;
+  }
+
+  /**
+   * Starts pushing to each connection on its schedule. Scheduled pushes
+   * that were running when this process last stopped are recorded as failed.
+   */
+  public async startAsync(): Promise<void> {
+    const stateService = this.serviceProvider.stateService;
+    for (const job of this.jobs) {
+      const lastRun = stateService.getConnectionState(
+        job.connection.id,
+      ).lastScheduledRun;
+      if (lastRun?.status === 'running') {
+        lastRun.status = 'failed';
+        lastRun.error = 'Interrupted';
+      }
+    }
+    await stateService.saveAsync();
+
+    for (const job of this.jobs) {
+      this.scheduleNextRun(job);
+    }
+    this.started = true;
+  }
+
+  /**
+   * Stops scheduling pushes, and waits for pushes in progress to end.
+   */
+  public async stopAsync(): Promise<void> {
+    this.started = false;
+    for (const job of this.jobs) {
+      clearTimeout(job.timer);
+      job.timer = undefined;
+      job.nextRunTime = undefined;
+    }
+
+    await Promise.all(this.jobs.map((job) => job.running));
+  }
+
+  /**
+   * Gets the status of each scheduled connection.
+   *
+   * @returns The statuses.
+   */
+  public getStatus(): ScheduledJobStatus[] {
+    return this.jobs.map((job) => ({
+      connectionId: job.connection.id,
+      itemType: itemTypes[job.connection.itemType!],
+      schedule: job.connection.schedule!,
+      incremental: job.connection.incremental ?? false,
+      running: job.running !== undefined,
+      nextRunTime: job.nextRunTime?.toISOString(),
+      lastRun: this.serviceProvider.stateService.getConnectionState(
+        job.connection.id,
+      ).lastScheduledRun,
+    }));
+  }
+
+  /**
+   * Sets a timer for the next time a job is due.
+   *
+   * @param job - The job.
+   */
+  private scheduleNextRun(job: ScheduledJob) {
+    job.nextRunTime = job.schedule.getNextTime(new Date());
+    if (!job.nextRunTime) {
+      return;
+    }
+
+    this.setTimer(job);
+  }
+
+  /**
+   * Waits until a job is due, then runs it and schedules the next run.
+   *
+   * @param job - The job.
+   */
+  private setTimer(job: ScheduledJob) {
+    const delay = job.nextRunTime!.getTime() - Date.now();
+    job.timer = setTimeout(
+      () => {
+        if (Date.now() < job.nextRunTime!.getTime()) {
+          this.setTimer(job);
+          return;
+        }
+
+        if (job.running) {
+          console.log(
+            `Skipping scheduled push to connection ${job.connection.id}, the previous push is still running`,
+          );
+        } else {
+          job.running = this.runJobAsync(job)
+            .catch((error) => {
+              console.log(
+                `Error saving scheduled push state: ${JSON.stringify(error, null, 2)}`,
+              );
+            })
+            .finally(() => {
+              job.running = undefined;
+            });
+        }
+
+        this.scheduleNextRun(job);
+      },
+      Math.max(0, Math.min(delay, maxTimerDelayMilliseconds)),
+    );
+  }
+
+  /**
+   * Pushes items to a connection, recording the result.
+   *
+   * @param job - The job.
+   */
+  private async runJobAsync(job: ScheduledJob): Promise<void> {
+    const { id, itemType, incremental } = job.connection;
+    const stateService = this.serviceProvider.stateService;
+    const runState: ScheduledRunState = {
+      startTime: new Date().toISOString(),
+      status: 'running',
+    };
+    stateService.getConnectionState(id).lastScheduledRun = runState;
+    await stateService.saveAsync();
+
+    console.log(
+      `Starting scheduled push of ${itemTypes[itemType!].toLowerCase()} to connection ${id}`,
+    );
+    try {
+      const { ingestionService } = this.serviceProvider.getServices(id);
+      const report = await ingestionService.pushItemsAsync(
+        id,
+        itemType!,
+        incremental ?? false,
+      );
+      runState.status = report.results.succeeded ? 'succeeded' : 'failed';
+      if (!report.results.succeeded) {
+        runState.error = `${report.results.failed} items failed, ${report.results.incomplete} incomplete, ${report.results.errors.length} errors`;
+      }
+    } catch (error) {
+      console.log(
+        `Error running scheduled push: ${JSON.stringify(error, null, 2)}`,
+      );
+      runState.status = 'failed';
+      runState.error = (error as Error).message ?? String(error);
+    }
+
+    runState.endTime = new Date().toISOString();
+    await stateService.saveAsync();
+  }
+}
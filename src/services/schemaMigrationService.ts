@@ -0,0 +1,441 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { ExternalConnectors } from '@microsoft/microsoft-graph-types';
+
+import { ItemTypeChoice, itemTypes } from '../menu.js';
+import SearchConnectorService from './searchConnectorService.js';
+import IngestionService from './ingestionService.js';
+import StateService, { SchemaOperationState } from './stateService.js';
+
+// Property settings compared between schemas
+const comparedSettings = [
+  'type',
+  'isSearchable',
+  'isQueryable',
+  'isRetrievable',
+  'isRefinable',
+  'labels',
+  'aliases',
+] as const;
+
+/**
+ * The differences between a registered schema and a local schema.
+ */
+export type SchemaDiff = {
+  // Properties in the local schema that aren't registered
+  added: ExternalConnectors.Property[];
+  // Names of registered properties that aren't in the local schema
+  removed: string[];
+  // Descriptions of settings that differ for properties in both schemas
+  changed: string[];
+};
+
+export type MigrateOptions = {
+  /**
+   * If true, show the differences without changing the connection.
+   */
+  dryRun: boolean;
+  /**
+   * Called when the schema can only be migrated by recreating the
+   * connection. Return true to delete and recreate the connection,
+   * register the schema, and push all items again.
+   */
+  confirmRecreate: () => boolean;
+};
+
+export default class SchemaMigrationService {
+  private connectorService: SearchConnectorService;
+  private ingestionService: IngestionService;
+  private stateService: StateService;
+
+  /**
+   * Initializes a new instance of the SchemaMigrationService class.
+   *
+   * @param connectorService - The connector service.
+   * @param ingestionService - The ingestion service, used to push items to recreated connections.
+   * @param stateService - The state service.
+   */
+  constructor(
+    connectorService: SearchConnectorService,
+    ingestionService: IngestionService,
+    stateService: StateService,
+  ) {
+    this.connectorService = connectorService;
+    this.ingestionService = ingestionService;
+    this.stateService = stateService;
+  }
+
+  /**
+   * Registers the schema for an item type and records its version. The
+   * operation ID is saved first, so that if this process stops before
+   * the operation completes, waiting can be resumed later.
+   *
+   * @param connectionId - The connection ID of the connection.
+   * @param itemType - The item type.
+   */
+  public async registerSchemaAsync(
+    connectionId: string,
+    itemType: ItemTypeChoice,
+  ): Promise<void> {
+    const operationId = await this.connectorService.registerSchemaAsync(
+      connectionId,
+      SearchConnectorService.getSchemaForItemType(itemType),
+    );
+    await this.trackSchemaOperationAsync(connectionId, operationId, itemType);
+  }
+
+  /**
+   * Waits for the last schema operation started for a connection to
+   * end, if it hasn't already, and records the result.
+   *
+   * @param connectionId - The connection ID of the connection.
+   * @returns The operation, or undefined if no operation has been started.
+   */
+  public async waitForSchemaOperationAsync(
+    connectionId: string,
+  ): Promise<SchemaOperationState | undefined> {
+    const operationState =
+      this.stateService.getConnectionState(connectionId).schemaOperation;
+    if (operationState?.status !== 'inprogress') {
+      return operationState;
+    }
+
+    // Throws if the operation doesn't end before the timeout,
+    // leaving it in progress so waiting can be resumed again
+    const operation =
+      await this.connectorService.waitForOperationToCompleteAsync(
+        connectionId,
+        operationState.operationId,
+      );
+
+    operationState.status =
+      operation.status === 'completed' ? 'completed' : 'failed';
+    operationState.endTime = new Date().toISOString();
+    operationState.error = operation.error?.message ?? undefined;
+
+    if (operationState.status === 'completed') {
+      await this.recordSchemaAsync(connectionId, operationState.itemType);
+    } else {
+      await this.stateService.saveAsync();
+    }
+
+    return operationState;
+  }
+
+  /**
+   * Resumes waiting for schema operations that were in progress when
+   * this process last stopped.
+   */
+  public async resumeSchemaOperationsAsync(): Promise<void> {
+    for (const connectionId of this.stateService.getConnectionIds()) {
+      const operationState =
+        this.stateService.getConnectionState(connectionId).schemaOperation;
+      if (operationState?.status !== 'inprogress') {
+        continue;
+      }
+
+      console.log(
+        `Resuming wait for schema operation on connection ${connectionId}...`,
+      );
+      try {
+        const result = await this.waitForSchemaOperationAsync(connectionId);
+        console.log(
+          `Schema operation on connection ${connectionId} ${result?.status}`,
+        );
+      } catch (error) {
+        console.log(
+          `Error waiting for schema operation: ${JSON.stringify(error, null, 2)}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Compares the schema registered for a connection to the current schema
+   * for its item type, and applies the differences. New properties are
+   * added to the registered schema. Other changes require the connection
+   * to be recreated.
+   *
+   * @param connectionId - The connection ID of the connection.
+   * @param itemType - The item type, if not recorded when the schema was registered.
+   * @param options - Contains the options for the migration.
+   * @returns True if the registered schema is up to date, or would be if not a dry run.
+   */
+  public async migrateAsync(
+    connectionId: string,
+    itemType: ItemTypeChoice | undefined,
+    options: MigrateOptions,
+  ): Promise<boolean> {
+    const connectionState = this.stateService.getConnectionState(connectionId);
+    if (connectionState.schemaOperation?.status === 'inprogress') {
+      console.log(
+        'A schema operation is in progress for this connection. Wait for it to complete before migrating.',
+      );
+      return false;
+    }
+
+    itemType ??= connectionState.itemType;
+    if (itemType === undefined) {
+      console.log(
+        'The type of data for this connection is not known. Specify the type of data to migrate.',
+      );
+      return false;
+    }
+
+    const localSchema = SearchConnectorService.getSchemaForItemType(itemType);
+    const localVersion =
+      SearchConnectorService.getSchemaVersionForItemType(itemType);
+
+    let registeredSchema: ExternalConnectors.Schema | undefined = undefined;
+    try {
+      registeredSchema =
+        await this.connectorService.getSchemaAsync(connectionId);
+    } catch (error) {
+      if ((error as { statusCode?: number }).statusCode !== 404) {
+        throw error;
+      }
+    }
+
+    if (!registeredSchema?.properties?.length) {
+      console.log('No schema is registered for this connection.');
+      if (!options.dryRun) {
+        console.log('Registering schema, this may take some time...');
+        await this.registerSchemaAsync(connectionId, itemType);
+        console.log('Schema registered successfully.');
+      }
+      return true;
+    }
+
+    console.log(
+      `Registered schema version: ${connectionState.schemaVersion ?? 'unknown'}, current version: ${localVersion}`,
+    );
+
+    const diff = diffSchemas(registeredSchema, localSchema);
+    printDiff(diff);
+
+    if (diff.removed.length > 0 || diff.changed.length > 0) {
+      return this.migrateBreakingChangesAsync(connectionId, itemType, options);
+    }
+
+    if (diff.added.length > 0 && !options.dryRun) {
+      console.log('Updating schema, this may take some time...');
+      const operationId = await this.connectorService.updateSchemaAsync(
+        connectionId,
+        localSchema,
+      );
+      await this.trackSchemaOperationAsync(connectionId, operationId, itemType);
+      console.log(
+        'Schema updated successfully. Push all items to set the new properties on existing items.',
+      );
+    }
+
+    if (diff.added.length <= 0 && !options.dryRun) {
+      await this.recordSchemaAsync(connectionId, itemType);
+    }
+
+    return true;
+  }
+
+  /**
+   * Recreates a connection with the current schema, if confirmed.
+   *
+   * @param connectionId - The connection ID of the connection.
+   * @param itemType - The item type.
+   * @param options - Contains the options for the migration.
+   * @returns True if the connection was recreated and all items pushed.
+   */
+  private async migrateBreakingChangesAsync(
+    connectionId: string,
+    itemType: ItemTypeChoice,
+    options: MigrateOptions,
+  ): Promise<boolean> {
+    console.log(
+      'Existing properties of a registered schema cannot be changed or removed. To apply these changes, the connection must be deleted, created again, and all items pushed again. Search results from this connection are unavailable until the items are pushed.',
+    );
+
+    if (options.dryRun) {
+      return false;
+    }
+
+    const connection =
+      await this.connectorService.getConnectionAsync(connectionId);
+    if (connection.connectorId) {
+      console.log(
+        'This connection was created by a Microsoft 365 app. Disable and enable the connector in the Teams admin center to recreate it.',
+      );
+      return false;
+    }
+
+    if (!options.confirmRecreate()) {
+      return false;
+    }
+
+    console.log('Deleting connection, this may take some time...');
+    await this.connectorService.deleteConnectionAsync(connectionId);
+    await this.stateService.deleteConnectionStateAsync(connectionId);
+    await this.connectorService.waitForConnectionDeletedAsync(connectionId);
+
+    await this.connectorService.createConnectionAsync(
+      connectionId,
+      connection.name ?? connectionId,
+      itemType,
+      connection.description ?? undefined,
+    );
+    console.log('Connection created successfully.');
+
+    console.log('Registering schema, this may take some time...');
+    await this.registerSchemaAsync(connectionId, itemType);
+    console.log('Schema registered successfully.');
+
+    console.log(`Pushing ${itemTypes[itemType].toLowerCase()}...`);
+    const report = await this.ingestionService.pushItemsAsync(
+      connectionId,
+      itemType,
+      false,
+    );
+    return report.results.succeeded;
+  }
+
+  /**
+   * Saves a schema operation to the connection's state, then waits for it.
+   *
+   * @param connectionId - The connection ID of the connection.
+   * @param operationId - The ID of the operation.
+   * @param itemType - The item type of the schema.
+   */
+  private async trackSchemaOperationAsync(
+    connectionId: string,
+    operationId: string,
+    itemType: ItemTypeChoice,
+  ) {
+    this.stateService.getConnectionState(connectionId).schemaOperation = {
+      operationId: operationId,
+      itemType: itemType,
+      status: 'inprogress',
+      startTime: new Date().toISOString(),
+    };
+    await this.stateService.saveAsync();
+
+    const operationState = await this.waitForSchemaOperationAsync(connectionId);
+    if (operationState?.status === 'failed') {
+      throw new Error(operationState.error ?? 'Schema operation failed');
+    }
+  }
+
+  /**
+   * Records the item type and schema version registered for a connection.
+   *
+   * @param connectionId - The connection ID of the connection.
+   * @param itemType - The item type.
+   */
+  private async recordSchemaAsync(
+    connectionId: string,
+    itemType: ItemTypeChoice,
+  ) {
+    const connectionState = this.stateService.getConnectionState(connectionId);
+    connectionState.itemType = itemType;
+    connectionState.schemaVersion =
+      SearchConnectorService.getSchemaVersionForItemType(itemType);
+    await this.stateService.saveAsync();
+  }
+}
+
+/**
+ * Compares a registered schema to a local schema.
+ *
+ * @param registered - The schema registered for a connection.
+ * @param local - The local schema.
+ * @returns The differences.
+ */
+export function diffSchemas(
+  registered: ExternalConnectors.Schema,
+  local: ExternalConnectors.Schema,
+): SchemaDiff {
+  const registeredProperties = new Map(
+    (registered.properties ?? []).map((property) => [property.name, property]),
+  );
+  const localNames = new Set(
+    (local.properties ?? []).map((property) => property.name),
+  );
+
+  const diff: SchemaDiff = { added: [], removed: [], changed: [] };
+  for (const property of local.properties ?? []) {
+    const registeredProperty = registeredProperties.get(property.name);
+    if (!registeredProperty) {
+      diff.added.push(property);
+      continue;
+    }
+
+    for (const setting of comparedSettings) {
+      const registeredValue = normalizeSetting(
+        setting,
+        registeredProperty[setting],
+      );
+      const localValue = normalizeSetting(setting, property[setting]);
+      if (registeredValue !== localValue) {
+        diff.changed.push(
+          `${property.name}.${setting}: ${registeredValue} -> ${localValue}`,
+        );
+      }
+    }
+  }
+
+  for (const name of registeredProperties.keys()) {
+    if (!localNames.has(name)) {
+      diff.removed.push(name ?? '');
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Converts a property setting to a string that can be compared. Settings
+ * that aren't set are returned by Microsoft Graph as false or empty, and
+ * types may be returned in a different case than they were registered in.
+ *
+ * @param setting - The name of the setting.
+ * @param value - The setting value.
+ * @returns The string to compare.
+ */
+function normalizeSetting(
+  setting: (typeof comparedSettings)[number],
+  value: unknown,
+): string {
+  if (Array.isArray(value)) {
+    return value.length > 0 ? `[${[...value].sort().join(', ')}]` : 'false';
+  }
+
+  if (setting === 'type' && typeof value === 'string') {
+    return value.toLowerCase();
+  }
+
+  return String(value ?? false);
+}
+
+/**
+ * Prints the differences between schemas.
+ *
+ * @param diff - The differences.
+ */
+function printDiff(diff: SchemaDiff) {
+  if (
+    diff.added.length <= 0 &&
+    diff.removed.length <= 0 &&
+    diff.changed.length <= 0
+  ) {
+    console.log('The registered schema is up to date.');
+    return;
+  }
+
+  for (const property of diff.added) {
+    console.log(`  + ${property.name} (${property.type})`);
+  }
+  for (const name of diff.removed) {
+    console.log(`  - ${name}`);
+  }
+  for (const change of diff.changed) {
+    console.log(`  ~ ${change}`);
+  }
+}
@@ -3,6 +3,15 @@
 
 import { ExternalConnectors } from '@microsoft/microsoft-graph-types';
 
+// Increment the version of a schema whenever it changes, so that
+// connections registered with an earlier version can be migrated
+export const issuesSchemaVersion = 3;
+export const reposSchemaVersion = 1;
+export const pullRequestsSchemaVersion = 1;
+export const docsSchemaVersion = 1;
+export const discussionsSchemaVersion = 1;
+export const releasesSchemaVersion = 1;
+
 export const issuesSchema: ExternalConnectors.Schema = {
   baseType: 'microsoft.graph.externalItem',
   properties: [
@@ -50,6 +59,14 @@ export const issuesSchema: ExternalConnectors.Schema = {
       isRetrievable: true,
       isRefinable: true,
     },
+    {
+      name: 'closedAt',
+      type: 'dateTime',
+      isSearchable: false,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: true,
+    },
     {
       name: 'issueUrl',
       type: 'string',
@@ -86,6 +103,22 @@ export const issuesSchema: ExternalConnectors.Schema = {
       isRefinable: false,
       labels: ['lastModifiedBy'],
     },
+    {
+      name: 'commentCount',
+      type: 'int64',
+      isSearchable: false,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: true,
+    },
+    {
+      name: 'lastCommentedBy',
+      type: 'string',
+      isSearchable: true,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: false,
+    },
   ],
 };
 
@@ -174,3 +207,367 @@ export const reposSchema: ExternalConnectors.Schema = {
     },
   ],
 };
+
+export const pullRequestsSchema: ExternalConnectors.Schema = {
+  baseType: 'microsoft.graph.externalItem',
+  properties: [
+    {
+      aliases: ['pullRequestTitle'],
+      name: 'title',
+      type: 'string',
+      isSearchable: true,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: false,
+      labels: ['title'],
+    },
+    {
+      aliases: ['message'],
+      name: 'body',
+      type: 'string',
+      isSearchable: true,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: false,
+    },
+    {
+      name: 'state',
+      type: 'string',
+      isSearchable: false,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: true,
+    },
+    {
+      aliases: ['targetBranch'],
+      name: 'baseBranch',
+      type: 'string',
+      isSearchable: true,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: false,
+    },
+    {
+      aliases: ['sourceBranch'],
+      name: 'headBranch',
+      type: 'string',
+      isSearchable: true,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: false,
+    },
+    {
+      name: 'isMerged',
+      type: 'boolean',
+      isSearchable: false,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: true,
+    },
+    {
+      name: 'isDraft',
+      type: 'boolean',
+      isSearchable: false,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: true,
+    },
+    {
+      name: 'reviewers',
+      type: 'string',
+      isSearchable: true,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: false,
+    },
+    {
+      name: 'changedFiles',
+      type: 'int64',
+      isSearchable: false,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: false,
+    },
+    {
+      name: 'createdBy',
+      type: 'string',
+      isSearchable: true,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: false,
+      labels: ['createdBy'],
+    },
+    {
+      name: 'assignees',
+      type: 'string',
+      isSearchable: true,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: false,
+    },
+    {
+      name: 'labels',
+      type: 'string',
+      isSearchable: true,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: false,
+    },
+    {
+      name: 'pullRequestUrl',
+      type: 'string',
+      isSearchable: false,
+      isQueryable: false,
+      isRetrievable: true,
+      isRefinable: false,
+      labels: ['url'],
+    },
+    {
+      name: 'icon',
+      type: 'string',
+      isSearchable: false,
+      isQueryable: false,
+      isRetrievable: true,
+      isRefinable: false,
+      labels: ['iconUrl'],
+    },
+    {
+      name: 'updatedAt',
+      type: 'dateTime',
+      isSearchable: false,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: true,
+      labels: ['lastModifiedDateTime'],
+    },
+    {
+      name: 'lastModifiedBy',
+      type: 'string',
+      isSearchable: true,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: false,
+      labels: ['lastModifiedBy'],
+    },
+  ],
+};
+
+export const docsSchema: ExternalConnectors.Schema = {
+  baseType: 'microsoft.graph.externalItem',
+  properties: [
+    {
+      aliases: ['docTitle'],
+      name: 'title',
+      type: 'string',
+      isSearchable: true,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: false,
+      labels: ['title'],
+    },
+    {
+      name: 'path',
+      type: 'string',
+      isSearchable: true,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: false,
+      labels: ['fileName'],
+    },
+    {
+      name: 'repository',
+      type: 'string',
+      isSearchable: true,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: true,
+    },
+    {
+      name: 'docUrl',
+      type: 'string',
+      isSearchable: false,
+      isQueryable: false,
+      isRetrievable: true,
+      isRefinable: false,
+      labels: ['url'],
+    },
+    {
+      name: 'icon',
+      type: 'string',
+      isSearchable: false,
+      isQueryable: false,
+      isRetrievable: true,
+      isRefinable: false,
+      labels: ['iconUrl'],
+    },
+  ],
+};
+
+export const discussionsSchema: ExternalConnectors.Schema = {
+  baseType: 'microsoft.graph.externalItem',
+  properties: [
+    {
+      aliases: ['discussionTitle'],
+      name: 'title',
+      type: 'string',
+      isSearchable: true,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: false,
+      labels: ['title'],
+    },
+    {
+      aliases: ['message'],
+      name: 'body',
+      type: 'string',
+      isSearchable: true,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: false,
+    },
+    {
+      name: 'category',
+      type: 'string',
+      isSearchable: true,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: true,
+    },
+    {
+      name: 'isAnswered',
+      type: 'boolean',
+      isSearchable: false,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: true,
+    },
+    {
+      name: 'answerAuthor',
+      type: 'string',
+      isSearchable: true,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: false,
+    },
+    {
+      name: 'createdBy',
+      type: 'string',
+      isSearchable: true,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: false,
+      labels: ['createdBy'],
+    },
+    {
+      name: 'discussionUrl',
+      type: 'string',
+      isSearchable: false,
+      isQueryable: false,
+      isRetrievable: true,
+      isRefinable: false,
+      labels: ['url'],
+    },
+    {
+      name: 'icon',
+      type: 'string',
+      isSearchable: false,
+      isQueryable: false,
+      isRetrievable: true,
+      isRefinable: false,
+      labels: ['iconUrl'],
+    },
+    {
+      name: 'updatedAt',
+      type: 'dateTime',
+      isSearchable: false,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: true,
+      labels: ['lastModifiedDateTime'],
+    },
+  ],
+};
+
+export const releasesSchema: ExternalConnectors.Schema = {
+  baseType: 'microsoft.graph.externalItem',
+  properties: [
+    {
+      aliases: ['releaseName'],
+      name: 'title',
+      type: 'string',
+      isSearchable: true,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: false,
+      labels: ['title'],
+    },
+    {
+      name: 'tagName',
+      type: 'string',
+      isSearchable: true,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: false,
+    },
+    {
+      name: 'repository',
+      type: 'string',
+      isSearchable: true,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: true,
+    },
+    {
+      name: 'publishedAt',
+      type: 'dateTime',
+      isSearchable: false,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: true,
+      labels: ['lastModifiedDateTime'],
+    },
+    {
+      name: 'isPrerelease',
+      type: 'boolean',
+      isSearchable: false,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: true,
+    },
+    {
+      name: 'assetNames',
+      type: 'stringCollection',
+      isSearchable: true,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: false,
+    },
+    {
+      name: 'createdBy',
+      type: 'string',
+      isSearchable: true,
+      isQueryable: true,
+      isRetrievable: true,
+      isRefinable: false,
+      labels: ['createdBy'],
+    },
+    {
+      name: 'releaseUrl',
+      type: 'string',
+      isSearchable: false,
+      isQueryable: false,
+      isRetrievable: true,
+      isRefinable: false,
+      labels: ['url'],
+    },
+    {
+      name: 'icon',
+      type: 'string',
+      isSearchable: false,
+      isQueryable: false,
+      isRetrievable: true,
+      isRefinable: false,
+      labels: ['iconUrl'],
+    },
+  ],
+};
@@ -5,31 +5,86 @@ import 'isomorphic-fetch';
 import { Response } from 'node-fetch';
 import { ClientSecretCredential } from '@azure/identity';
 import {
+  AuthenticationProvider,
   Client,
+  MiddlewareFactory,
   PageCollection,
   ResponseType,
+  RetryHandlerOptions,
 } from '@microsoft/microsoft-graph-client';
 // prettier-ignore
 import { TokenCredentialAuthenticationProvider } from
   '@microsoft/microsoft-graph-client/authProviders/azureTokenCredentials/index.js';
 import { ExternalConnectors } from '@microsoft/microsoft-graph-types';
-import { issuesSchema, reposSchema } from './schemas.js';
+import {
+  discussionsSchema,
+  discussionsSchemaVersion,
+  docsSchema,
+  docsSchemaVersion,
+  issuesSchema,
+  issuesSchemaVersion,
+  pullRequestsSchema,
+  pullRequestsSchemaVersion,
+  releasesSchema,
+  releasesSchemaVersion,
+  reposSchema,
+  reposSchemaVersion,
+} from './schemas.js';
 import { ItemTypeChoice } from '../menu.js';
 import ItemIdResolverWithType, {
   itemIdResolverType,
 } from '../types/itemIdResolverWithType.js';
 import {
   Assignee,
+  Collaborator,
+  Discussion,
   Issue,
+  IssueComment,
   IssueEvent,
   Labels,
+  PullRequest,
+  PullRequestReview,
+  Release,
   RepoEvent,
   Repository,
+  Team,
 } from './repositoryService.js';
 import ExternalActivityWithType, {
   externalActivityType,
 } from '../types/externalActivityWithType.js';
+import IdentityMapper from '../identity/identityMapper.js';
+import ConcurrencyLimiter from '../pipeline/concurrencyLimiter.js';
+import RequestCounter from '../pipeline/requestCounter.js';
 import { readFileSync } from 'fs';
+import { createHash } from 'crypto';
+
+/**
+ * How access to ingested items is controlled.
+ *
+ * @remarks
+ * `everyone` grants every user in the tenant access to all items.
+ * `repository` grants access to items from private repositories only to
+ * the mapped collaborators and teams of the repository.
+ */
+export type AclMode = 'everyone' | 'repository';
+
+// Delay used when a throttled response has no Retry-After header
+const throttledRetryDelaySeconds = 3;
+// The maximum number of retries allowed by the Graph SDK's retry handler
+const maxThrottledRetries = 10;
+
+// The longest item ID Microsoft Graph accepts
+const maxItemIdLength = 128;
+
+/**
+ * Encodes a path in a repository as it appears in GitHub URLs.
+ *
+ * @param path - The path.
+ * @returns The path, with each part percent-encoded.
+ */
+function encodeUrlPath(path: string): string {
+  return path.split('/').map(encodeURIComponent).join('/');
+}
 
 export type SearchConnectorServiceOptions = {
   /**
@@ -48,14 +103,50 @@ export type SearchConnectorServiceOptions = {
    * The GitHub user or organization.
    */
   gitHubOwner?: string;
-  /**
-   * The GitHub repository to ingest issues from.
-   */
-  gitHubRepo?: string;
   /**
    * The placeholder user ID to map to GitHub user logins.
    */
   placeHolderUserId?: string;
+  /**
+   * How access to ingested items is controlled. Defaults to `repository`.
+   */
+  aclMode?: AclMode;
+  /**
+   * The maximum number of item requests to send to Microsoft Graph
+   * at the same time. Defaults to 4.
+   */
+  concurrency?: number;
+  /**
+   * How long to wait before first checking the status of a schema
+   * operation. The wait doubles after each check. Defaults to 10 seconds.
+   */
+  operationPollIntervalSeconds?: number;
+  /**
+   * The longest wait between checks of the status of a schema
+   * operation. Defaults to 60 seconds.
+   */
+  operationPollMaxIntervalSeconds?: number;
+  /**
+   * How long to wait for a schema operation to complete, or for a
+   * connection to be deleted, before giving up. Defaults to 60 minutes.
+   */
+  operationTimeoutMinutes?: number;
+  /**
+   * The folders documentation is ingested from, as set for the repository
+   * service, used to find the path of a file in links to documentation.
+   * Defaults to `docs`.
+   */
+  docsPaths?: string[];
+  /**
+   * The base URL of Microsoft Graph, for example to use a national
+   * cloud or a local test server. Defaults to `https://graph.microsoft.com/`.
+   */
+  graphBaseUrl?: string;
+  /**
+   * Authenticates requests to Microsoft Graph. If set, it's used
+   * instead of the client secret.
+   */
+  authProvider?: AuthenticationProvider;
 };
 
 export default class SearchConnectorService {
@@ -67,11 +158,37 @@ export default class SearchConnectorService {
    * Schema for ingesting GitHub repositories.
    */
   static readonly reposSchema: ExternalConnectors.Schema = reposSchema;
+  /**
+   * Schema for ingesting GitHub pull requests.
+   */
+  static readonly pullRequestsSchema: ExternalConnectors.Schema =
+    pullRequestsSchema;
+  /**
+   * Schema for ingesting Markdown documentation from repositories.
+   */
+  static readonly docsSchema: ExternalConnectors.Schema = docsSchema;
+  /**
+   * Schema for ingesting GitHub discussions.
+   */
+  static readonly discussionsSchema: ExternalConnectors.Schema =
+    discussionsSchema;
+  /**
+   * Schema for ingesting GitHub releases.
+   */
+  static readonly releasesSchema: ExternalConnectors.Schema = releasesSchema;
 
   private graphClient: Client;
   private gitHubOwner: string;
-  private gitHubRepo: string;
   private placeHolderUserId: string;
+  private identityMapper?: IdentityMapper;
+  private aclMode: AclMode;
+  private itemLimiter: ConcurrencyLimiter;
+  private itemRetryOptions: RetryHandlerOptions;
+  private requestCounter = new RequestCounter();
+  private operationPollIntervalSeconds: number;
+  private operationPollMaxIntervalSeconds: number;
+  private operationTimeoutMinutes: number;
+  private docsPaths: string[];
 
   /**
    * Initializes a new instance of the SearchConnectorServiceOptions class.
@@ -79,11 +196,14 @@ export default class SearchConnectorService {
    * @param options - Contains the options for the class.
    */
   constructor(options: SearchConnectorServiceOptions) {
-    if (!options.tenantId || !options.clientId || !options.clientSecret) {
+    if (
+      !options.authProvider &&
+      (!options.tenantId || !options.clientId || !options.clientSecret)
+    ) {
       throw new Error('Invalid app registration details, please see README');
     }
 
-    if (!options.gitHubOwner || !options.gitHubRepo) {
+    if (!options.gitHubOwner) {
       throw new Error('Invalid GitHub details, please see README');
     }
 
@@ -92,21 +212,237 @@ export default class SearchConnectorService {
     }
 
     this.gitHubOwner = options.gitHubOwner;
-    this.gitHubRepo = options.gitHubRepo;
     this.placeHolderUserId = options.placeHolderUserId;
+    if (
+      options.aclMode &&
+      !['everyone', 'repository'].includes(options.aclMode)
+    ) {
+      throw new Error('Invalid ACL mode, please see README');
+    }
 
-    const credential = new ClientSecretCredential(
-      options.tenantId,
-      options.clientId,
-      options.clientSecret,
+    this.aclMode = options.aclMode ?? 'repository';
+    this.docsPaths = (options.docsPaths ?? ['docs']).map((path) =>
+      path.replace(/^\/+|\/+$/g, ''),
     );
-    const authProvider = new TokenCredentialAuthenticationProvider(credential, {
-      scopes: ['https://graph.microsoft.com/.default'],
-    });
 
+    this.operationPollIntervalSeconds =
+      options.operationPollIntervalSeconds ?? 10;
+    this.operationPollMaxIntervalSeconds =
+      options.operationPollMaxIntervalSeconds ?? 60;
+    this.operationTimeoutMinutes = options.operationTimeoutMinutes ?? 60;
+    if (
+      !(this.operationPollIntervalSeconds > 0) ||
+      !(this.operationPollMaxIntervalSeconds > 0) ||
+      !(this.operationTimeoutMinutes > 0)
+    ) {
+      throw new Error('Invalid schema operation timing, please see README');
+    }
+
+    const authProvider =
+      options.authProvider ??
+      new TokenCredentialAuthenticationProvider(
+        new ClientSecretCredential(
+          options.tenantId!,
+          options.clientId!,
+          options.clientSecret!,
+        ),
+        {
+          scopes: ['https://graph.microsoft.com/.default'],
+        },
+      );
+
+    // Count requests just before they're sent, so that retries are counted
+    const middleware =
+      MiddlewareFactory.getDefaultMiddlewareChain(authProvider);
+    middleware.splice(middleware.length - 1, 0, this.requestCounter);
+
+    // Tokens are only sent to Microsoft Graph hosts, so
+    // any other base URL must be trusted explicitly
     this.graphClient = Client.initWithMiddleware({
-      authProvider: authProvider,
+      middleware: middleware,
+      baseUrl: options.graphBaseUrl,
+      customHosts: options.graphBaseUrl
+        ? new Set([new URL(options.graphBaseUrl).hostname])
+        : undefined,
     });
+
+    // When Microsoft Graph throttles an item request, pause all
+    // item requests for the Retry-After interval rather than
+    // just retrying the throttled one
+    this.itemLimiter = new ConcurrencyLimiter(options.concurrency ?? 4);
+    this.itemRetryOptions = new RetryHandlerOptions(
+      throttledRetryDelaySeconds,
+      maxThrottledRetries,
+      (_delay, _attempt, _request, _options, response) => {
+        if (response.status === 429) {
+          const retryAfter = Number(response.headers.get('Retry-After'));
+          this.itemLimiter.pause(
+            (retryAfter || throttledRetryDelaySeconds) * 1000,
+          );
+        }
+        return true;
+      },
+    );
+  }
+
+  /**
+   * Gets the number of requests sent to Microsoft Graph.
+   */
+  public get requestCount(): number {
+    return this.requestCounter.count;
+  }
+
+  /**
+   * Gets the item ID for a repository. The ID doesn't change
+   * when the repository is renamed.
+   *
+   * @param repoId - The ID of the repository.
+   * @returns The item ID.
+   */
+  static getRepositoryItemId(repoId: number): string {
+    return repoId.toString();
+  }
+
+  /**
+   * Gets the item ID for an issue. Issue numbers are only unique
+   * within a repository, so the ID includes the repository name.
+   *
+   * @param repoName - The name of the repository that contains the issue.
+   * @param issueNumber - The issue number.
+   * @returns The item ID.
+   */
+  static getIssueItemId(repoName: string, issueNumber: number): string {
+    return `${repoName}-${issueNumber}`;
+  }
+
+  /**
+   * Gets the item ID for a pull request. Pull request numbers are only
+   * unique within a repository, so the ID includes the repository name.
+   *
+   * @param repoName - The name of the repository that contains the pull request.
+   * @param pullNumber - The pull request number.
+   * @returns The item ID.
+   */
+  static getPullRequestItemId(repoName: string, pullNumber: number): string {
+    return `${repoName}-${pullNumber}`;
+  }
+
+  /**
+   * Gets the item ID for a documentation file, which is the repository
+   * name and the path of the file as it appears in GitHub URLs, so that
+   * links to the file can be resolved to the item. The two are separated
+   * by `~`, which can't appear in a repository name.
+   *
+   * @remarks
+   * Item IDs can't be longer than 128 characters, so files whose ID would
+   * be longer are identified by the repository ID and a hash of the path
+   * instead, and links to them aren't resolved.
+   *
+   * @param repo - The repository that contains the file.
+   * @param path - The path of the file in the repository.
+   * @returns The item ID.
+   */
+  static getDocItemId(repo: Repository, path: string): string {
+    const itemId = `${repo.name}~${encodeUrlPath(path)}`;
+    if (itemId.length <= maxItemIdLength) {
+      return itemId;
+    }
+
+    const pathHash = createHash('sha256').update(path).digest('hex');
+    return `doc-${repo.id}-${pathHash}`;
+  }
+
+  /**
+   * Gets the item ID for a discussion. Discussion numbers are only
+   * unique within a repository, so the ID includes the repository name.
+   *
+   * @param repoName - The name of the repository that contains the discussion.
+   * @param discussionNumber - The discussion number.
+   * @returns The item ID.
+   */
+  static getDiscussionItemId(
+    repoName: string,
+    discussionNumber: number,
+  ): string {
+    return `${repoName}-${discussionNumber}`;
+  }
+
+  /**
+   * Gets the item ID for a release, which is the repository name and the
+   * tag as it appears in GitHub URLs, so that links to the release can be
+   * resolved to the item. The two are separated by `~`, which can't
+   * appear in a repository name or a tag.
+   *
+   * @remarks
+   * Item IDs can't be longer than 128 characters, so releases whose ID
+   * would be longer are identified by the release ID instead, and links
+   * to them aren't resolved.
+   *
+   * @param repo - The repository that contains the release.
+   * @param release - The release.
+   * @returns The item ID.
+   */
+  static getReleaseItemId(repo: Repository, release: Release): string {
+    const itemId = `${repo.name}~${encodeUrlPath(release.tag_name)}`;
+    return itemId.length <= maxItemIdLength ? itemId : `release-${release.id}`;
+  }
+
+  /**
+   * Gets the schema for an item type.
+   *
+   * @param itemType - The item type.
+   * @returns The schema.
+   */
+  static getSchemaForItemType(
+    itemType: ItemTypeChoice,
+  ): ExternalConnectors.Schema {
+    switch (itemType) {
+      case ItemTypeChoice.Issues:
+        return SearchConnectorService.issuesSchema;
+      case ItemTypeChoice.PullRequests:
+        return SearchConnectorService.pullRequestsSchema;
+      case ItemTypeChoice.Docs:
+        return SearchConnectorService.docsSchema;
+      case ItemTypeChoice.Discussions:
+        return SearchConnectorService.discussionsSchema;
+      case ItemTypeChoice.Releases:
+        return SearchConnectorService.releasesSchema;
+      default:
+        return SearchConnectorService.reposSchema;
+    }
+  }
+
+  /**
+   * Gets the current version of the schema for an item type.
+   *
+   * @param itemType - The item type.
+   * @returns The schema version.
+   */
+  static getSchemaVersionForItemType(itemType: ItemTypeChoice): number {
+    switch (itemType) {
+      case ItemTypeChoice.Issues:
+        return issuesSchemaVersion;
+      case ItemTypeChoice.PullRequests:
+        return pullRequestsSchemaVersion;
+      case ItemTypeChoice.Docs:
+        return docsSchemaVersion;
+      case ItemTypeChoice.Discussions:
+        return discussionsSchemaVersion;
+      case ItemTypeChoice.Releases:
+        return releasesSchemaVersion;
+      default:
+        return reposSchemaVersion;
+    }
+  }
+
+  /**
+   * Sets the mapper used to map GitHub logins to Microsoft Entra ID users.
+   * Logins that cannot be mapped use the placeholder user ID.
+   *
+   * @param identityMapper - The identity mapper.
+   */
+  public setIdentityMapper(identityMapper: IdentityMapper) {
+    this.identityMapper = identityMapper;
   }
 
   /**
@@ -114,7 +450,7 @@ export default class SearchConnectorService {
    *
    * @param connectionId - The connection ID for the new connection.
    * @param name - The display name of the new connection.
-   * @param itemType - The item type for the new connection (`issues` or `repos`).
+   * @param itemType - The item type for the new connection.
    * @param description - The description of the new connection.
    * @param connectorTicket - The connector ticket when creating a connection from an M365 app.
    * @param connectorId - The connector ID when creating a connection from an M365 app.
@@ -128,39 +464,36 @@ export default class SearchConnectorService {
     connectorTicket?: string,
     connectorId?: string,
   ): Promise<ExternalConnectors.ExternalConnection | undefined> {
-    const itemIdResolver: ItemIdResolverWithType = {
-      '@odata.type': itemIdResolverType,
-      priority: 1,
-      itemId: itemType == ItemTypeChoice.Issues ? '{issueId}' : '{repo}',
-      urlMatchInfo: {
-        urlPattern:
-          itemType == ItemTypeChoice.Issues
-            ? `/${this.gitHubOwner}/${this.gitHubRepo}/issues/(?<issueId>[0-9]+)`
-            : `/${this.gitHubOwner}/(?<repo>.*)/`,
-        baseUrls: ['https://github.com'],
-      },
-    };
+    const settings = this.getItemTypeSettings(itemType);
+
+    const itemIdResolver: ItemIdResolverWithType | undefined =
+      settings.itemId && settings.urlPattern
+        ? {
+            '@odata.type': itemIdResolverType,
+            priority: 1,
+            itemId: settings.itemId,
+            urlMatchInfo: {
+              urlPattern: settings.urlPattern,
+              baseUrls: ['https://github.com'],
+            },
+          }
+        : undefined;
 
     const resultTemplateLayout = this.getResultTemplate(
-      itemType == ItemTypeChoice.Issues
-        ? './result-cards/result-typeIssues.json'
-        : './result-cards/result-typeRepos.json',
+      settings.resultCardFile,
     );
 
     const newConnection: ExternalConnectors.ExternalConnection = {
       id: connectionId,
       name: name,
       description: description,
-      activitySettings: {
-        urlToItemResolvers: [itemIdResolver],
-      },
+      activitySettings: itemIdResolver
+        ? { urlToItemResolvers: [itemIdResolver] }
+        : undefined,
       searchSettings: {
         searchResultTemplates: [
           {
-            id:
-              itemType == ItemTypeChoice.Issues
-                ? 'issueDisplay'
-                : 'repoDisplay',
+            id: settings.resultTemplateId,
             priority: 1,
             layout: resultTemplateLayout,
           },
@@ -189,6 +522,36 @@ export default class SearchConnectorService {
     return this.graphClient.api('/external/connections').get();
   }
 
+  /**
+   * Gets a connection.
+   *
+   * @param connectionId - The connection ID of the connection.
+   * @returns The connection.
+   */
+  public async getConnectionAsync(
+    connectionId: string,
+  ): Promise<ExternalConnectors.ExternalConnection> {
+    return this.graphClient.api(`/external/connections/${connectionId}`).get();
+  }
+
+  /**
+   * Checks if a connection exists.
+   *
+   * @param connectionId - The connection ID of the connection.
+   * @returns True if the connection exists.
+   */
+  public async connectionExistsAsync(connectionId: string): Promise<boolean> {
+    try {
+      await this.getConnectionAsync(connectionId);
+      return true;
+    } catch (error) {
+      if ((error as { statusCode?: number }).statusCode === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
   /**
    * Deletes a connection.
    *
@@ -204,31 +567,24 @@ export default class SearchConnectorService {
   }
 
   /**
-   * Registers a schema for a connection.
+   * Starts registering a schema for a connection. Registration
+   * continues in the background after this method returns.
    *
    * @param connectionId - The connection ID of the connection.
    * @param schema - The schema to register.
+   * @returns The ID of the operation to wait for.
    */
   public async registerSchemaAsync(
     connectionId: string,
     schema: ExternalConnectors.Schema,
-  ): Promise<void> {
+  ): Promise<string> {
     const response: Response = await this.graphClient
       .api(`/external/connections/${connectionId}/schema`)
       .responseType(ResponseType.RAW)
       .post(schema);
 
     if (response.ok) {
-      // The operation ID is contained in the Location header returned
-      // in the response
-      const location = response.headers.get('Location');
-      const locationSegments = location?.split('/') ?? [];
-      if (locationSegments.length <= 0) {
-        throw new Error('Could not get operation ID from Location header');
-      }
-
-      const operationId = locationSegments[locationSegments.length - 1];
-      await this.waitForOperationToCompleteAsync(connectionId, operationId);
+      return this.getOperationId(response);
     } else {
       throw new Error(
         `Registering schema failed, status: ${response.status} - ${response.statusText}`,
@@ -236,6 +592,101 @@ export default class SearchConnectorService {
     }
   }
 
+  /**
+   * Gets the schema registered for a connection.
+   *
+   * @param connectionId - The connection ID of the connection.
+   * @returns The schema.
+   */
+  public async getSchemaAsync(
+    connectionId: string,
+  ): Promise<ExternalConnectors.Schema> {
+    return this.graphClient
+      .api(`/external/connections/${connectionId}/schema`)
+      .get();
+  }
+
+  /**
+   * Starts updating the schema registered for a connection. Only new
+   * properties can be added to a registered schema. The update
+   * continues in the background after this method returns.
+   *
+   * @param connectionId - The connection ID of the connection.
+   * @param schema - The updated schema, including all existing properties.
+   * @returns The ID of the operation to wait for.
+   */
+  public async updateSchemaAsync(
+    connectionId: string,
+    schema: ExternalConnectors.Schema,
+  ): Promise<string> {
+    const response: Response = await this.graphClient
+      .api(`/external/connections/${connectionId}/schema`)
+      .responseType(ResponseType.RAW)
+      .patch(schema);
+
+    if (response.ok) {
+      return this.getOperationId(response);
+    } else {
+      throw new Error(
+        `Updating schema failed, status: ${response.status} - ${response.statusText}`,
+      );
+    }
+  }
+
+  /**
+   * Waits for a connection to finish being deleted, so that
+   * a new connection with the same ID can be created.
+   *
+   * @param connectionId - The connection ID of the deleted connection.
+   */
+  public async waitForConnectionDeletedAsync(connectionId: string) {
+    const deadline = Date.now() + this.operationTimeoutMinutes * 60 * 1000;
+
+    for (;;) {
+      try {
+        await this.getConnectionAsync(connectionId);
+      } catch (error) {
+        if ((error as { statusCode?: number }).statusCode === 404) {
+          return;
+        }
+        throw error;
+      }
+
+      // Poll every 10 seconds
+      const waitMilliseconds = Math.min(10000, deadline - Date.now());
+      if (waitMilliseconds <= 0) {
+        throw new Error(
+          `Connection ${connectionId} was not deleted within ${this.operationTimeoutMinutes} minutes`,
+        );
+      }
+
+      await new Promise((res) => setTimeout(res, waitMilliseconds));
+    }
+  }
+
+  /**
+   * Finds a user in Microsoft Entra ID by email address.
+   *
+   * @param email - The email address to look up.
+   * @returns The user ID, or undefined if no single user has the email address.
+   */
+  public async getUserIdByEmailAsync(
+    email: string,
+  ): Promise<string | undefined> {
+    // Escape single quotes for the OData filter
+    const escapedEmail = email.replace(/'/g, "''");
+    const response: PageCollection = await this.graphClient
+      .api('/users')
+      .filter(
+        `mail eq '${escapedEmail}' or userPrincipalName eq '${escapedEmail}'`,
+      )
+      .select('id')
+      .get();
+
+    const users = response.value as { id: string }[];
+    return users.length === 1 ? users[0].id : undefined;
+  }
+
   /**
    * Adds or updates an ExternalItem.
    *
@@ -247,25 +698,140 @@ export default class SearchConnectorService {
     connectionId: string,
     item: ExternalConnectors.ExternalItem,
   ): Promise<ExternalConnectors.ExternalItem> {
-    return this.graphClient
-      .api(`/external/connections/${connectionId}/items/${item.id}`)
-      .put(item);
+    if (item.activities) {
+      item = {
+        ...item,
+        activities: this.removeEventIds(
+          item.activities as ExternalActivityWithType[],
+        ),
+      };
+    }
+
+    return this.itemLimiter.runAsync(() =>
+      this.graphClient
+        .api(
+          `/external/connections/${connectionId}/items/${encodeURIComponent(item.id!)}`,
+        )
+        .middlewareOptions([this.itemRetryOptions])
+        .put(item),
+    );
+  }
+
+  /**
+   * Deletes an ExternalItem.
+   *
+   * @param connectionId - The connection ID of the connection that contains the item.
+   * @param itemId - The ID of the item to delete.
+   */
+  public async deleteItemAsync(
+    connectionId: string,
+    itemId: string,
+  ): Promise<void> {
+    return this.itemLimiter.runAsync(() =>
+      this.graphClient
+        .api(
+          `/external/connections/${connectionId}/items/${encodeURIComponent(itemId)}`,
+        )
+        .middlewareOptions([this.itemRetryOptions])
+        .delete(),
+    );
   }
 
+  /**
+   * Adds activities to an ExternalItem.
+   *
+   * @param connectionId - The connection ID of the connection that contains the item.
+   * @param itemId - The ID of the item.
+   * @param activities - The activities to add.
+   */
   public async addIssueActivitiesAsync(
     connectionId: string,
     itemId: string,
     activities: ExternalActivityWithType[],
   ) {
     if (activities.length > 0) {
-      await this.graphClient
-        .api(
-          `/external/connections/${connectionId}/items/${itemId}/addActivities`,
-        )
-        .post({
-          activities: activities,
-        });
+      const body = this.removeEventIds(activities);
+      await this.itemLimiter.runAsync(() =>
+        this.graphClient
+          .api(
+            `/external/connections/${connectionId}/items/${encodeURIComponent(itemId)}/addActivities`,
+          )
+          .middlewareOptions([this.itemRetryOptions])
+          .post({
+            activities: body,
+          }),
+      );
+    }
+  }
+
+  /**
+   * Gets a value indicating if the ACL for items from a repository
+   * must be computed from the repository's collaborators and teams.
+   *
+   * @param repo - The repository.
+   * @returns True if collaborators and teams are needed to create the ACL.
+   */
+  public requiresRepositoryPermissions(repo: Repository): boolean {
+    return this.aclMode === 'repository' && repo.private;
+  }
+
+  /**
+   * Creates the ACL for items from a repository.
+   *
+   * @remarks
+   * Items from private repositories are only granted to collaborators and
+   * teams that can be mapped to Microsoft Entra ID users and groups. If none
+   * can be mapped, the returned ACL is empty and the items must not be ingested.
+   *
+   * @param repo - The repository.
+   * @param collaborators - The users with access to the repository.
+   * @param teams - The teams with access to the repository.
+   * @returns The ACL.
+   */
+  public async createAclForRepositoryAsync(
+    repo: Repository,
+    collaborators: Collaborator[],
+    teams: Team[],
+  ): Promise<ExternalConnectors.Acl[]> {
+    if (!this.requiresRepositoryPermissions(repo)) {
+      return [
+        {
+          type: 'everyone',
+          value: 'everyone',
+          accessType: 'grant',
+        },
+      ];
     }
+
+    const acl: ExternalConnectors.Acl[] = [];
+    if (this.identityMapper) {
+      const userIds = new Set<string>();
+      for (const collaborator of collaborators) {
+        const userId = await this.identityMapper.getUserIdAsync(
+          collaborator.login,
+        );
+        if (userId) {
+          userIds.add(userId);
+        }
+      }
+
+      const groupIds = new Set<string>();
+      for (const team of teams) {
+        const groupId = await this.identityMapper.getGroupIdAsync(team.slug);
+        if (groupId) {
+          groupIds.add(groupId);
+        }
+      }
+
+      for (const userId of userIds) {
+        acl.push({ type: 'user', value: userId, accessType: 'grant' });
+      }
+      for (const groupId of groupIds) {
+        acl.push({ type: 'group', value: groupId, accessType: 'grant' });
+      }
+    }
+
+    return acl;
   }
 
   /**
@@ -273,11 +839,13 @@ export default class SearchConnectorService {
    *
    * @param repo - The repository.
    * @param repoEvents - A list of repository events, used to determine the use that last modified the repo.
+   * @param acl - The ACL for the item.
    * @returns The ExternalItem.
    */
   public async createExternalItemFromRepoAsync(
     repo: Repository,
     repoEvents: RepoEvent[],
+    acl: ExternalConnectors.Acl[],
   ): Promise<ExternalConnectors.ExternalItem> {
     let lastModifiedBy = repo.owner.login;
     if (repoEvents && repoEvents.length > 0) {
@@ -287,6 +855,7 @@ export default class SearchConnectorService {
     const activities: ExternalActivityWithType[] = [
       {
         '@odata.type': externalActivityType,
+        eventId: 'created',
         type: 'created',
         startDateTime: repo.created_at ?? undefined,
         performedBy: await this.getIdentityForGitHubUserAsync(repo.owner.login),
@@ -294,14 +863,8 @@ export default class SearchConnectorService {
     ];
 
     const externalItem: ExternalConnectors.ExternalItem = {
-      id: repo.id.toString(),
-      acl: [
-        {
-          type: 'everyone',
-          value: 'everyone',
-          accessType: 'grant',
-        },
-      ],
+      id: SearchConnectorService.getRepositoryItemId(repo.id),
+      acl: acl,
       properties: {
         title: repo.name,
         description: repo.description,
@@ -319,15 +882,181 @@ export default class SearchConnectorService {
     return externalItem;
   }
 
+  /**
+   * Creates an ExternalItem from a Markdown file in a repository.
+   *
+   * @param repo - The repository that contains the file.
+   * @param path - The path of the file in the repository.
+   * @param title - The title of the document.
+   * @param acl - The ACL for the item.
+   * @returns The ExternalItem.
+   */
+  public createExternalItemFromDoc(
+    repo: Repository,
+    path: string,
+    title: string,
+    acl: ExternalConnectors.Acl[],
+  ): ExternalConnectors.ExternalItem {
+    return {
+      id: SearchConnectorService.getDocItemId(repo, path),
+      acl: acl,
+      properties: {
+        title: title,
+        path: path,
+        repository: repo.name,
+        docUrl: `${repo.html_url}/blob/${repo.default_branch}/${encodeUrlPath(path)}`,
+        icon: 'https://pngimg.com/uploads/github/github_PNG40.png',
+      },
+    };
+  }
+
+  /**
+   * Creates an ExternalItem from a Release.
+   * @param repo - The repository that contains the release.
+   * @param release - The release.
+   * @param acl - The ACL for the item.
+   * @returns The ExternalItem.
+   */
+  public async createExternalItemFromReleaseAsync(
+    repo: Repository,
+    release: Release,
+    acl: ExternalConnectors.Acl[],
+  ): Promise<ExternalConnectors.ExternalItem> {
+    const activities: ExternalActivityWithType[] = [
+      {
+        '@odata.type': externalActivityType,
+        eventId: 'created',
+        type: 'created',
+        startDateTime: release.published_at ?? release.created_at,
+        performedBy: await this.getIdentityForGitHubUserAsync(
+          release.author.login,
+        ),
+      },
+    ];
+
+    const externalItem: ExternalConnectors.ExternalItem = {
+      id: SearchConnectorService.getReleaseItemId(repo, release),
+      acl: acl,
+      properties: {
+        title: release.name || release.tag_name,
+        tagName: release.tag_name,
+        repository: repo.name,
+        publishedAt: release.published_at ?? release.created_at,
+        isPrerelease: release.prerelease,
+        'assetNames@odata.type': 'Collection(String)',
+        assetNames: release.assets.map((asset) => asset.name),
+        createdBy: release.author.login,
+        releaseUrl: release.html_url,
+        icon: 'https://pngimg.com/uploads/github/github_PNG40.png',
+      },
+      activities: activities,
+    };
+
+    return externalItem;
+  }
+
+  /**
+   * Creates an ExternalItem from a Discussion.
+   * @param repo - The repository that contains the discussion.
+   * @param discussion - The discussion.
+   * @param acl - The ACL for the item.
+   * @returns The ExternalItem.
+   */
+  public async createExternalItemFromDiscussionAsync(
+    repo: Repository,
+    discussion: Discussion,
+    acl: ExternalConnectors.Acl[],
+  ): Promise<ExternalConnectors.ExternalItem> {
+    const activities: ExternalActivityWithType[] = [
+      {
+        '@odata.type': externalActivityType,
+        eventId: 'created',
+        type: 'created',
+        startDateTime: discussion.createdAt,
+        performedBy: await this.getIdentityForGitHubUserAsync(
+          discussion.author?.login,
+        ),
+      },
+    ];
+
+    const externalItem: ExternalConnectors.ExternalItem = {
+      id: SearchConnectorService.getDiscussionItemId(
+        repo.name,
+        discussion.number,
+      ),
+      acl: acl,
+      properties: {
+        title: discussion.title,
+        body: discussion.body,
+        category: discussion.category.name,
+        isAnswered: discussion.isAnswered ?? false,
+        answerAuthor: discussion.answer?.author?.login ?? '',
+        createdBy: discussion.author?.login ?? 'ghost',
+        discussionUrl: discussion.url,
+        updatedAt: discussion.updatedAt,
+        icon: 'https://pngimg.com/uploads/github/github_PNG40.png',
+      },
+      activities: activities,
+    };
+
+    return externalItem;
+  }
+
+  /**
+   * Creates a list of ExternalActivityWithTypes from the
+   * comments and answer of a Discussion.
+   * @param discussion - The discussion.
+   * @returns The list of ExternalActivityWithTypes.
+   */
+  public async createExternalActivitiesFromDiscussionAsync(
+    discussion: Discussion,
+  ): Promise<ExternalActivityWithType[]> {
+    const activities: ExternalActivityWithType[] = [];
+
+    for (const comment of discussion.comments) {
+      activities.push({
+        '@odata.type': externalActivityType,
+        eventId: `comment-${comment.id}`,
+        type: 'commented',
+        startDateTime: comment.createdAt,
+        performedBy: await this.getIdentityForGitHubUserAsync(
+          comment.author?.login,
+        ),
+      });
+    }
+
+    // Choosing an answer marks the discussion as answered
+    if (discussion.answerChosenAt) {
+      activities.push({
+        '@odata.type': externalActivityType,
+        // A different answer can be chosen later
+        eventId: `answer-${discussion.answerChosenAt}`,
+        type: 'modified',
+        startDateTime: discussion.answerChosenAt,
+        performedBy: await this.getIdentityForGitHubUserAsync(
+          discussion.answerChosenBy?.login,
+        ),
+      });
+    }
+
+    return activities;
+  }
+
   /**
    * Creates an ExternalItem from an Issue.
+   * @param repo - The repository that contains the issue.
    * @param issue - The issue.
    * @param issueEvents - A list of issue events, used to determine the use that last modified the issue.
+   * @param comments - The comments on the issue, oldest first.
+   * @param acl - The ACL for the item.
    * @returns The ExternalItem.
    */
   public async createExternalItemFromIssueAsync(
+    repo: Repository,
     issue: Issue,
     issueEvents: IssueEvent[],
+    comments: IssueComment[],
+    acl: ExternalConnectors.Acl[],
   ): Promise<ExternalConnectors.ExternalItem> {
     let lastModifiedBy = issue.user?.login;
     if (issueEvents && issueEvents.length > 0) {
@@ -338,6 +1067,7 @@ export default class SearchConnectorService {
     const activities: ExternalActivityWithType[] = [
       {
         '@odata.type': externalActivityType,
+        eventId: 'created',
         type: 'created',
         startDateTime: issue.created_at ?? undefined,
         performedBy: await this.getIdentityForGitHubUserAsync(
@@ -347,23 +1077,95 @@ export default class SearchConnectorService {
     ];
 
     const externalItem: ExternalConnectors.ExternalItem = {
-      id: issue.number.toString(),
-      acl: [
-        {
-          type: 'everyone',
-          value: 'everyone',
-          accessType: 'grant',
-        },
-      ],
+      id: SearchConnectorService.getIssueItemId(repo.name, issue.number),
+      acl: acl,
       properties: {
         title: issue.title,
         body: issue.body,
         assignees: this.assigneesToString(issue.assignees ?? []),
         labels: this.labelsToString(issue.labels),
         state: issue.state,
+        closedAt: issue.closed_at ?? undefined,
         issueUrl: issue.html_url,
         lastModifiedBy: lastModifiedBy,
         updatedAt: issue.updated_at,
+        commentCount: comments.length,
+        lastCommentedBy:
+          comments.length > 0
+            ? (comments[comments.length - 1].user?.login ?? 'ghost')
+            : '',
+        icon: 'https://pngimg.com/uploads/github/github_PNG40.png',
+      },
+      activities: activities,
+    };
+
+    return externalItem;
+  }
+
+  /**
+   * Creates an ExternalItem from a PullRequest.
+   * @param repo - The repository that contains the pull request.
+   * @param pullRequest - The pull request.
+   * @param reviews - The reviews of the pull request.
+   * @param acl - The ACL for the item.
+   * @returns The ExternalItem.
+   */
+  public async createExternalItemFromPullRequestAsync(
+    repo: Repository,
+    pullRequest: PullRequest,
+    reviews: PullRequestReview[],
+    acl: ExternalConnectors.Acl[],
+  ): Promise<ExternalConnectors.ExternalItem> {
+    let lastModifiedBy = pullRequest.user.login;
+    if (pullRequest.merged_by) {
+      lastModifiedBy = pullRequest.merged_by.login;
+    } else if (reviews.length > 0) {
+      lastModifiedBy =
+        reviews[reviews.length - 1].user?.login ?? lastModifiedBy;
+    }
+
+    // Reviewers include those who have been asked to
+    // review and those who have already reviewed
+    const reviewers = new Set<string>([
+      ...(pullRequest.requested_reviewers ?? []).map((r) => r.login),
+      ...(pullRequest.requested_teams ?? []).map((t) => t.name),
+      ...reviews.flatMap((r) => (r.user ? [r.user.login] : [])),
+    ]);
+
+    const activities: ExternalActivityWithType[] = [
+      {
+        '@odata.type': externalActivityType,
+        eventId: 'created',
+        type: 'created',
+        startDateTime: pullRequest.created_at,
+        performedBy: await this.getIdentityForGitHubUserAsync(
+          pullRequest.user.login,
+        ),
+      },
+    ];
+
+    const externalItem: ExternalConnectors.ExternalItem = {
+      id: SearchConnectorService.getPullRequestItemId(
+        repo.name,
+        pullRequest.number,
+      ),
+      acl: acl,
+      properties: {
+        title: pullRequest.title,
+        body: pullRequest.body,
+        state: pullRequest.state,
+        baseBranch: pullRequest.base.ref,
+        headBranch: pullRequest.head.ref,
+        isMerged: pullRequest.merged,
+        isDraft: pullRequest.draft ?? false,
+        reviewers: reviewers.size > 0 ? [...reviewers].join(',') : 'None',
+        changedFiles: pullRequest.changed_files,
+        createdBy: pullRequest.user.login,
+        assignees: this.assigneesToString(pullRequest.assignees ?? []),
+        labels: this.labelsToString(pullRequest.labels),
+        pullRequestUrl: pullRequest.html_url,
+        lastModifiedBy: lastModifiedBy,
+        updatedAt: pullRequest.updated_at,
         icon: 'https://pngimg.com/uploads/github/github_PNG40.png',
       },
       activities: activities,
@@ -372,8 +1174,76 @@ export default class SearchConnectorService {
     return externalItem;
   }
 
+  /**
+   * Creates a list of ExternalActivityWithTypes from the reviews
+   * and merge of a PullRequest.
+   * @param pullRequest - The pull request.
+   * @param reviews - The reviews of the pull request.
+   * @returns The list of ExternalActivityWithTypes.
+   */
+  public async createExternalActivitiesFromPullRequestAsync(
+    pullRequest: PullRequest,
+    reviews: PullRequestReview[],
+  ): Promise<ExternalActivityWithType[]> {
+    const activities: ExternalActivityWithType[] = [];
+
+    for (const review of reviews) {
+      // Pending reviews haven't been submitted yet
+      if (review.submitted_at) {
+        activities.push({
+          '@odata.type': externalActivityType,
+          eventId: `review-${review.id}`,
+          type: 'commented',
+          startDateTime: review.submitted_at,
+          performedBy: await this.getIdentityForGitHubUserAsync(
+            review.user?.login,
+          ),
+        });
+      }
+    }
+
+    if (pullRequest.merged_at) {
+      activities.push({
+        '@odata.type': externalActivityType,
+        eventId: 'merged',
+        type: 'modified',
+        startDateTime: pullRequest.merged_at,
+        performedBy: await this.getIdentityForGitHubUserAsync(
+          pullRequest.merged_by?.login,
+        ),
+      });
+    }
+
+    return activities;
+  }
+
+  /**
+   * Creates a list of ExternalActivityWithTypes from a list of IssueComments.
+   * @param comments - The list of IssueComments.
+   * @returns The list of ExternalActivityWithTypes.
+   */
+  public async createExternalActivitiesFromIssueCommentsAsync(
+    comments: IssueComment[],
+  ): Promise<ExternalActivityWithType[]> {
+    const activities: ExternalActivityWithType[] = [];
+
+    for (const comment of comments) {
+      activities.push({
+        '@odata.type': externalActivityType,
+        eventId: `comment-${comment.id}`,
+        type: 'commented',
+        startDateTime: comment.created_at,
+        performedBy: await this.getIdentityForGitHubUserAsync(
+          comment.user?.login,
+        ),
+      });
+    }
+    return activities;
+  }
+
   /**
    * Creates a list of ExternalActivityWithTypes from a list of IssueEvents.
+   * Comments aren't issue events, see createExternalActivitiesFromIssueCommentsAsync.
    * @param issueEvents - The list of IssueEvents.
    * @returns The list of ExternalActivityWithTypes.
    */
@@ -385,7 +1255,8 @@ export default class SearchConnectorService {
     for (const issueEvent of issueEvents) {
       activities.push({
         '@odata.type': externalActivityType,
-        type: issueEvent.event === 'commented' ? 'commented' : 'modified',
+        eventId: `event-${issueEvent.id}`,
+        type: 'modified',
         startDateTime: issueEvent.created_at,
         performedBy: await this.getIdentityForGitHubUserAsync(
           issueEvent.actor?.login,
@@ -396,48 +1267,81 @@ export default class SearchConnectorService {
   }
 
   /**
-   * Periodically polls a newly created operation to check for completion.
+   * Gets the ID of the operation started by a request to register or update a schema.
+   * @param response - The response to the request.
+   * @returns The operation ID.
+   */
+  private getOperationId(response: Response): string {
+    // The operation ID is contained in the Location header returned
+    // in the response
+    const location = response.headers.get('Location');
+    const locationSegments = location?.split('/') ?? [];
+    if (locationSegments.length <= 0) {
+      throw new Error('Could not get operation ID from Location header');
+    }
+
+    return locationSegments[locationSegments.length - 1];
+  }
+
+  /**
+   * Periodically polls an operation until it completes or fails, waiting
+   * longer between each check up to the configured maximum interval.
    * @param connectionId - The connection ID of the connection.
    * @param operationId - The operation ID of the operation to check.
+   * @returns The completed or failed operation.
    */
-  private async waitForOperationToCompleteAsync(
+  public async waitForOperationToCompleteAsync(
     connectionId: string,
     operationId: string,
-  ) {
-    let keepPolling = true;
-    do {
+  ): Promise<ExternalConnectors.ConnectionOperation> {
+    const deadline = Date.now() + this.operationTimeoutMinutes * 60 * 1000;
+    let pollIntervalSeconds = this.operationPollIntervalSeconds;
+
+    for (;;) {
       const operation = (await this.graphClient
         .api(`/external/connections/${connectionId}/operations/${operationId}`)
         .get()) as ExternalConnectors.ConnectionOperation;
 
-      if (operation.status === 'completed') {
-        keepPolling = false;
-      } else if (operation.status == 'failed') {
+      if (operation.status === 'completed' || operation.status === 'failed') {
+        return operation;
+      }
+
+      const waitMilliseconds = Math.min(
+        pollIntervalSeconds * 1000,
+        deadline - Date.now(),
+      );
+      if (waitMilliseconds <= 0) {
         throw new Error(
-          operation.error?.message ?? 'Registering schema failed',
+          `Operation ${operationId} did not complete within ${this.operationTimeoutMinutes} minutes`,
         );
-      } else {
-        // Poll every minute
-        await new Promise((res) => setTimeout(res, 60000));
       }
-    } while (keepPolling);
+
+      await new Promise((res) => setTimeout(res, waitMilliseconds));
+      pollIntervalSeconds = Math.min(
+        pollIntervalSeconds * 2,
+        this.operationPollMaxIntervalSeconds,
+      );
+    }
   }
 
   /**
    * Gets an Identity from a GitHub login.
-   * @param _ - The GitHub login to look up.
+   * @param login - The GitHub login to look up.
    * @returns The Identity.
    */
   private async getIdentityForGitHubUserAsync(
-    _?: string,
+    login?: string,
   ): Promise<ExternalConnectors.Identity> {
-    // This method simply returns the user ID set in
-    // .env. A possible improvement would be
-    // to have some mapping of GitHub logins to Azure AD users
+    // Logins that can't be mapped to a Microsoft Entra ID
+    // user fall back to the user ID set in .env
+    let userId: string | undefined = undefined;
+    if (login && this.identityMapper) {
+      userId = await this.identityMapper.getUserIdAsync(login);
+    }
 
     return {
       type: 'user',
-      id: this.placeHolderUserId,
+      id: userId ?? this.placeHolderUserId,
     };
   }
 
@@ -468,6 +1372,105 @@ export default class SearchConnectorService {
     return labels.map((l) => (typeof l === 'string' ? l : l.name)).join(',');
   }
 
+  /**
+   * Gets the URL to item resolver and result template settings for an item type.
+   * @param itemType - The item type.
+   * @returns The settings for the item type.
+   */
+  private getItemTypeSettings(itemType: ItemTypeChoice): {
+    // Not set for item types whose IDs can't be built from their URL
+    itemId?: string;
+    urlPattern?: string;
+    resultCardFile: string;
+    resultTemplateId: string;
+  } {
+    switch (itemType) {
+      case ItemTypeChoice.Issues:
+        return {
+          // Must produce the same IDs as getIssueItemId
+          itemId: '{repo}-{issueId}',
+          urlPattern: `/${this.gitHubOwner}/(?<repo>[^/]+)/issues/(?<issueId>[0-9]+)`,
+          resultCardFile: './result-cards/result-typeIssues.json',
+          resultTemplateId: 'issueDisplay',
+        };
+      case ItemTypeChoice.PullRequests:
+        return {
+          // Must produce the same IDs as getPullRequestItemId
+          itemId: '{repo}-{pullNumber}',
+          urlPattern: `/${this.gitHubOwner}/(?<repo>[^/]+)/pull/(?<pullNumber>[0-9]+)`,
+          resultCardFile: './result-cards/result-typePullRequests.json',
+          resultTemplateId: 'pullRequestDisplay',
+        };
+      case ItemTypeChoice.Docs:
+        return {
+          // Must produce the same IDs as getDocItemId
+          itemId: '{repo}~{path}',
+          urlPattern: this.getDocUrlPattern(),
+          resultCardFile: './result-cards/result-typeDocs.json',
+          resultTemplateId: 'docDisplay',
+        };
+      case ItemTypeChoice.Discussions:
+        return {
+          // Must produce the same IDs as getDiscussionItemId
+          itemId: '{repo}-{discussionNumber}',
+          urlPattern: `/${this.gitHubOwner}/(?<repo>[^/]+)/discussions/(?<discussionNumber>[0-9]+)`,
+          resultCardFile: './result-cards/result-typeDiscussions.json',
+          resultTemplateId: 'discussionDisplay',
+        };
+      case ItemTypeChoice.Releases:
+        return {
+          // Must produce the same IDs as getReleaseItemId
+          itemId: '{repo}~{tag}',
+          urlPattern: `/${this.gitHubOwner}/(?<repo>[^/]+)/releases/tag/(?<tag>.+)`,
+          resultCardFile: './result-cards/result-typeReleases.json',
+          resultTemplateId: 'releaseDisplay',
+        };
+      default:
+        return {
+          itemId: '{repo}',
+          urlPattern: `/${this.gitHubOwner}/(?<repo>.*)/`,
+          resultCardFile: './result-cards/result-typeRepos.json',
+          resultTemplateId: 'repoDisplay',
+        };
+    }
+  }
+
+  /**
+   * Gets the pattern of links to documentation files. Branch names can
+   * contain `/`, so the path is found by the documentation folder it
+   * starts with, unless documentation is ingested from every folder.
+   *
+   * @returns The URL pattern.
+   */
+  private getDocUrlPattern(): string {
+    const repoPattern = `/${this.gitHubOwner}/(?<repo>[^/]+)/blob/`;
+    if (this.docsPaths.includes('')) {
+      return `${repoPattern}[^/]+/(?<path>.+\\.md)`;
+    }
+
+    const folders = this.docsPaths
+      .map((path) => encodeUrlPath(path).replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('|');
+    return `${repoPattern}.+?/(?<path>(?:${folders})/.+\\.md)`;
+  }
+
+  /**
+   * Removes the event IDs used to skip activities that were already
+   * added, as Microsoft Graph rejects properties it doesn't know.
+   *
+   * @param activities - The activities.
+   * @returns The activities to send.
+   */
+  private removeEventIds(
+    activities: ExternalActivityWithType[],
+  ): ExternalActivityWithType[] {
+    return activities.map((activity) => {
+      const sent = { ...activity };
+      delete sent.eventId;
+      return sent;
+    });
+  }
+
   /**
    * Loads adaptive card layout from a file.
    * @param resultCardJsonFile - the path to the file.
@@ -0,0 +1,229 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import {
+  AppConfig,
+  ConnectionConfig,
+  ConnectionSettings,
+} from '../config/appConfig.js';
+import SearchConnectorService from './searchConnectorService.js';
+import RepositoryService from './repositoryService.js';
+import StateService from './stateService.js';
+import IngestionService from './ingestionService.js';
+import SchemaMigrationService from './schemaMigrationService.js';
+import IdentityMapper from '../identity/identityMapper.js';
+import CachingIdentityMapper from '../identity/cachingIdentityMapper.js';
+import StaticIdentityMapper from '../identity/staticIdentityMapper.js';
+import EmailIdentityMapper from '../identity/emailIdentityMapper.js';
+
+/**
+ * The services used to work with a connection.
+ */
+export type ConnectionServices = {
+  connectorService: SearchConnectorService;
+  repoService: RepositoryService;
+  ingestionService: IngestionService;
+  schemaService: SchemaMigrationService;
+};
+
+/**
+ * Creates the services for each connection from the connector's
+ * settings. Connections defined in the configuration file get
+ * services created from their own settings.
+ */
+export default class ServiceProvider {
+  /**
+   * The state service, shared by all connections.
+   */
+  public readonly stateService: StateService;
+
+  private config: AppConfig;
+  private defaultServices?: ConnectionServices;
+  private connectionServices = new Map<string, ConnectionServices>();
+  private identityMapper?: IdentityMapper;
+
+  /**
+   * Initializes a new instance of the ServiceProvider class.
+   *
+   * @param config - The settings for the connector.
+   */
+  constructor(config: AppConfig) {
+    this.config = config;
+
+    // State service for persisting sync state between runs
+    this.stateService = new StateService({
+      stateFile: config.stateFile,
+    });
+  }
+
+  /**
+   * The connections defined in the configuration file.
+   */
+  public get connections(): ConnectionConfig[] {
+    return this.config.connections;
+  }
+
+  /**
+   * Gets a connection defined in the configuration file.
+   *
+   * @param connectionId - The connection ID of the connection.
+   * @returns The connection, or undefined if it isn't defined.
+   */
+  public getConnectionConfig(
+    connectionId?: string,
+  ): ConnectionConfig | undefined {
+    return this.config.connections.find(
+      (connection) => connection.id === connectionId,
+    );
+  }
+
+  /**
+   * Gets the settings for a connection, with the connection's own
+   * settings overriding the top-level settings.
+   *
+   * @param connectionId - The connection ID of the connection.
+   * @returns The settings.
+   */
+  public getConnectionSettings(connectionId?: string): ConnectionSettings {
+    const settings: ConnectionSettings = {
+      owner: this.config.owner,
+      repo: this.config.repo,
+      includeRepos: this.config.includeRepos,
+      excludeRepos: this.config.excludeRepos,
+      issueState: this.config.issueState,
+      closedWithinDays: this.config.closedWithinDays,
+      pullRequestState: this.config.pullRequestState,
+      docsPaths: this.config.docsPaths,
+      aclMode: this.config.aclMode,
+      placeholderUserId: this.config.placeholderUserId,
+    };
+
+    // Only settings the connection sets override the top-level settings
+    const overrides = Object.fromEntries(
+      Object.entries(this.getConnectionConfig(connectionId) ?? {}).filter(
+        ([name, value]) => name in settings && value !== undefined,
+      ),
+    );
+
+    return { ...settings, ...overrides };
+  }
+
+  /**
+   * Gets the services for a connection, creating them the first time.
+   *
+   * @param connectionId - The connection ID of the connection. Connections
+   * that aren't defined in the configuration file use the top-level settings.
+   * If not set, and every connection sets its own owner, the services for
+   * the first connection are returned.
+   * @returns The services.
+   */
+  public getServices(connectionId?: string): ConnectionServices {
+    if (connectionId === undefined && !this.config.owner) {
+      connectionId = this.config.connections[0]?.id;
+    }
+
+    const connection = this.getConnectionConfig(connectionId);
+    if (!connection) {
+      this.defaultServices ??= this.createServices(
+        this.getConnectionSettings(),
+      );
+      return this.defaultServices;
+    }
+
+    let services = this.connectionServices.get(connection.id);
+    if (!services) {
+      services = this.createServices(this.getConnectionSettings(connection.id));
+      this.connectionServices.set(connection.id, services);
+    }
+
+    return services;
+  }
+
+  /**
+   * Creates the services for a connection.
+   *
+   * @param settings - The settings for the connection.
+   * @returns The services.
+   */
+  private createServices(settings: ConnectionSettings): ConnectionServices {
+    const config = this.config;
+
+    // Connector service for making Microsoft Graph
+    // calls to manage connector
+    const connectorService = new SearchConnectorService({
+      tenantId: config.tenantId,
+      clientId: config.clientId,
+      clientSecret: config.clientSecret,
+      gitHubOwner: settings.owner,
+      placeHolderUserId: settings.placeholderUserId,
+      aclMode: settings.aclMode,
+      concurrency: config.graphConcurrency,
+      operationPollIntervalSeconds: config.schemaPollIntervalSeconds,
+      operationPollMaxIntervalSeconds: config.schemaPollMaxIntervalSeconds,
+      operationTimeoutMinutes: config.schemaTimeoutMinutes,
+      docsPaths: settings.docsPaths,
+      graphBaseUrl: config.graphBaseUrl,
+    });
+
+    // Repo service for getting information from GitHub
+    const repoService = new RepositoryService({
+      gitHubOwner: settings.owner,
+      gitHubRepo: settings.repo,
+      gitHubToken: config.gitHubToken,
+      gitHubBaseUrl: config.gitHubBaseUrl,
+      includeRepos: settings.includeRepos,
+      excludeRepos: settings.excludeRepos,
+      concurrency: config.gitHubConcurrency,
+      issueState: settings.issueState,
+      closedWithinDays: settings.closedWithinDays,
+      pullRequestState: settings.pullRequestState,
+      docsPaths: settings.docsPaths,
+    });
+
+    // Map GitHub logins to Microsoft Entra ID users, first from
+    // the mapping file, then by the user's public email address.
+    // Logins map to the same users for every connection, so
+    // the mapper and its cache are shared.
+    if (!this.identityMapper) {
+      const identityMappers: IdentityMapper[] = [];
+      if (config.identityMappingFile) {
+        identityMappers.push(
+          new StaticIdentityMapper(config.identityMappingFile),
+        );
+      }
+      if (config.mapIdentitiesByEmail) {
+        identityMappers.push(
+          new EmailIdentityMapper(repoService, connectorService),
+        );
+      }
+      this.identityMapper = new CachingIdentityMapper(identityMappers);
+    }
+    connectorService.setIdentityMapper(this.identityMapper);
+
+    // Ingestion service for pushing items from GitHub to a connection
+    const ingestionService = new IngestionService(
+      connectorService,
+      repoService,
+      this.stateService,
+      {
+        // Enough items in flight to keep both GitHub and
+        // Microsoft Graph busy at their limits
+        concurrency: config.gitHubConcurrency + config.graphConcurrency,
+      },
+    );
+
+    // Schema migration service for keeping registered schemas up to date
+    const schemaService = new SchemaMigrationService(
+      connectorService,
+      ingestionService,
+      this.stateService,
+    );
+
+    return {
+      connectorService,
+      repoService,
+      ingestionService,
+      schemaService,
+    };
+  }
+}
@@ -0,0 +1,274 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { existsSync, readFileSync, rmSync } from 'fs';
+import { readFile, rename, rm, writeFile } from 'fs/promises';
+
+import { ItemTypeChoice } from '../menu.js';
+
+/**
+ * A schema registration or update for a connection.
+ */
+export type SchemaOperationState = {
+  /**
+   * The ID of the operation in Microsoft Graph.
+   */
+  operationId: string;
+  /**
+   * The type of items the schema is for.
+   */
+  itemType: ItemTypeChoice;
+  /**
+   * The status of the operation when it was last checked.
+   */
+  status: 'inprogress' | 'completed' | 'failed';
+  /**
+   * The time the operation started, in ISO 8601 format.
+   */
+  startTime: string;
+  /**
+   * The time the operation completed or failed, in ISO 8601 format.
+   */
+  endTime?: string;
+  /**
+   * The reason the operation failed.
+   */
+  error?: string;
+};
+
+/**
+ * A push started by the scheduler.
+ */
+export type ScheduledRunState = {
+  /**
+   * The time the push started, in ISO 8601 format.
+   */
+  startTime: string;
+  /**
+   * The time the push ended, in ISO 8601 format.
+   */
+  endTime?: string;
+  /**
+   * The status of the push. A push that is still running when the
+   * scheduler starts was interrupted, and is recorded as failed.
+   */
+  status: 'running' | 'succeeded' | 'failed';
+  /**
+   * Why the push failed.
+   */
+  error?: string;
+};
+
+/**
+ * State persisted for a single connection between runs.
+ */
+export type ConnectionState = {
+  /**
+   * The time the last successful issue sync started, in ISO 8601 format.
+   */
+  lastSyncTime?: string;
+  /**
+   * The IDs of items that have been added to the connection and not deleted.
+   */
+  ingestedItemIds?: string[];
+  /**
+   * The IDs of items found in GitHub by the last full crawl, plus any
+   * found by incremental crawls since.
+   */
+  lastCrawlItemIds?: string[];
+  /**
+   * A hash of the properties, content and ACL of each item when it was
+   * last pushed, by item ID, used to skip items that haven't changed.
+   */
+  itemHashes?: Record<string, string>;
+  /**
+   * The event IDs of the activities added to each item, by item ID,
+   * used to only add activities for new events.
+   */
+  postedActivityIds?: Record<string, string[]>;
+  /**
+   * The type of items the connection's schema was registered for.
+   */
+  itemType?: ItemTypeChoice;
+  /**
+   * The version of the schema registered for the connection.
+   */
+  schemaVersion?: number;
+  /**
+   * The last schema operation started for the connection, which is
+   * kept after it ends so that its result can be reported.
+   */
+  schemaOperation?: SchemaOperationState;
+  /**
+   * The last push started by the scheduler.
+   */
+  lastScheduledRun?: ScheduledRunState;
+};
+
+type PersistedState = {
+  connections: Record<string, ConnectionState>;
+};
+
+// Lock files held by this process, which are removed when it exits
+const heldLockFiles = new Set<string>();
+
+/**
+ * Checks if a process is running.
+ *
+ * @param pid - The ID of the process.
+ * @returns True if the process is running.
+ */
+function isProcessRunning(pid: number): boolean {
+  if (!Number.isInteger(pid) || pid <= 0) {
+    return false;
+  }
+
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // The process exists, but belongs to another user
+    return (error as { code?: string }).code === 'EPERM';
+  }
+}
+
+export type StateServiceOptions = {
+  /**
+   * The path to the JSON file used to persist state.
+   */
+  stateFile?: string;
+};
+
+export default class StateService {
+  private stateFile: string;
+  private state: PersistedState;
+  // The contents of the state file when it was loaded
+  private loadedContent?: string;
+  // True once this process holds the lock on the state file
+  private locked = false;
+  // Saves run one at a time, in the order they were requested
+  private lastSave: Promise<void> = Promise.resolve();
+
+  /**
+   * Initializes a new instance of the StateService class.
+   *
+   * @param options - Contains the options for the class.
+   */
+  constructor(options: StateServiceOptions) {
+    this.stateFile = options.stateFile || '.connector-state.json';
+
+    if (existsSync(this.stateFile)) {
+      this.loadedContent = readFileSync(this.stateFile, 'utf-8');
+      this.state = JSON.parse(this.loadedContent) as PersistedState;
+    } else {
+      this.state = { connections: {} };
+    }
+  }
+
+  /**
+   * Gets the persisted state for a connection. Changes made to the
+   * returned object are written to disk by the next call to saveAsync.
+   *
+   * @param connectionId - The connection ID of the connection.
+   * @returns The state for the connection.
+   */
+  public getConnectionState(connectionId: string): ConnectionState {
+    this.state.connections[connectionId] ??= {};
+    return this.state.connections[connectionId];
+  }
+
+  /**
+   * Gets the IDs of the connections that have persisted state.
+   *
+   * @returns The connection IDs.
+   */
+  public getConnectionIds(): string[] {
+    return Object.keys(this.state.connections);
+  }
+
+  /**
+   * Removes all persisted state for a connection.
+   *
+   * @param connectionId - The connection ID of the connection.
+   */
+  public async deleteConnectionStateAsync(connectionId: string): Promise<void> {
+    delete this.state.connections[connectionId];
+    await this.saveAsync();
+  }
+
+  /**
+   * Writes the current state to disk.
+   *
+   * @remarks
+   * The state is written to a temporary file that then replaces the
+   * state file, so that a process that stops while saving doesn't leave
+   * a partly written file. Saves requested while another is in progress
+   * wait for it, so that they can't write the file at the same time.
+   *
+   * Each process keeps the state in memory, so two processes can't share
+   * a state file without overwriting each other's changes. The first save
+   * locks the state file until the process exits, and fails if another
+   * running process holds the lock or has changed the file since it was
+   * loaded.
+   */
+  public async saveAsync(): Promise<void> {
+    const save = this.lastSave
+      // A failed save doesn't stop later ones
+      .catch(() => {})
+      .then(async () => {
+        await this.lockAsync();
+        const tempFile = `${this.stateFile}.tmp`;
+        await writeFile(tempFile, JSON.stringify(this.state, null, 2));
+        await rename(tempFile, this.stateFile);
+      });
+    this.lastSave = save;
+    await save;
+  }
+  /**
+   * Locks the state file for this process, unless it already has.
+   */
+  private async lockAsync(): Promise<void> {
+    if (this.locked) {
+      return;
+    }
+
+    const lockFile = `${this.stateFile}.lock`;
+    try {
+      await writeFile(lockFile, String(process.pid), { flag: 'wx' });
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'EEXIST') {
+        throw error;
+      }
+
+      const pid = Number(await readFile(lockFile, 'utf-8'));
+      if (pid !== process.pid && isProcessRunning(pid)) {
+        throw new Error(
+          `The state file ${this.stateFile} is in use by process ${pid}. Processes that run at the same time, such as the daemon and a push, need their own STATE_FILE.`,
+        );
+      }
+
+      // The process that held the lock has stopped
+      await writeFile(lockFile, String(process.pid));
+    }
+
+    const content = existsSync(this.stateFile)
+      ? await readFile(this.stateFile, 'utf-8')
+      : undefined;
+    if (content !== this.loadedContent) {
+      await rm(lockFile, { force: true });
+      throw new Error(
+        `The state file ${this.stateFile} was changed by another process after it was loaded. Processes that run at the same time, such as the daemon and a push, need their own STATE_FILE.`,
+      );
+    }
+
+    if (heldLockFiles.size <= 0) {
+      process.once('exit', () => {
+        for (const file of heldLockFiles) {
+          rmSync(file, { force: true });
+        }
+      });
+    }
+    heldLockFiles.add(lockFile);
+    this.locked = true;
+  }
+}
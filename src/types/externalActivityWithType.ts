@@ -15,6 +15,12 @@ import { ExternalConnectors } from '@microsoft/microsoft-graph-types';
 export default interface ExternalActivityWithType
   extends ExternalConnectors.ExternalActivity {
   '@odata.type': string;
+  /**
+   * Identifies the GitHub event, comment or review the activity was
+   * created from, so that it's only added to an item once. It isn't
+   * sent to Microsoft Graph.
+   */
+  eventId?: string;
 }
 
 export const externalActivityType =
@@ -0,0 +1,94 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+
+import { loadConfig } from '../src/config/appConfig.js';
+import { ItemTypeChoice } from '../src/menu.js';
+
+const fixturesDir = join(import.meta.dirname, 'fixtures', 'config');
+
+describe('loadConfig', () => {
+  it('loads connections from a YAML file', () => {
+    const config = loadConfig(join(fixturesDir, 'connections.yaml'), {});
+
+    expect(config.owner).toBe('contoso');
+    expect(config.issueState).toBe('all');
+    expect(config.port).toBe(5001);
+    expect(config.connections).toEqual([
+      {
+        id: 'contosoissues',
+        name: 'Contoso issues',
+        itemType: ItemTypeChoice.Issues,
+        schedule: '0 * * * *',
+        incremental: true,
+        includeRepos: ['web-*'],
+      },
+      {
+        id: 'fabrikamdocs',
+        itemType: ItemTypeChoice.Docs,
+        owner: 'fabrikam',
+        docsPaths: [''],
+        aclMode: 'everyone',
+      },
+    ]);
+  });
+
+  it('overrides the file with environment variables', () => {
+    const config = loadConfig(join(fixturesDir, 'connections.yaml'), {
+      GITHUB_REPO_OWNER: 'northwind',
+      GITHUB_REPO_EXCLUDE: 'archive, old-*',
+      PORT_NUMBER: '8080',
+      MAP_IDENTITIES_BY_EMAIL: 'true',
+    });
+
+    expect(config.owner).toBe('northwind');
+    expect(config.excludeRepos).toEqual(['archive', 'old-*']);
+    expect(config.port).toBe(8080);
+    expect(config.mapIdentitiesByEmail).toBe(true);
+  });
+
+  it('loads settings from environment variables only', () => {
+    const config = loadConfig(undefined, {
+      TENANT_ID: 'tenant',
+      CLIENT_ID: 'client',
+      CLIENT_SECRET: 'secret',
+      GITHUB_TOKEN: 'token',
+      GITHUB_REPO_OWNER: 'contoso',
+      PLACEHOLDER_USER_ID: 'placeholder',
+    });
+
+    expect(config.tenantId).toBe('tenant');
+    expect(config.connections).toEqual([]);
+  });
+
+  it('reports every invalid setting', () => {
+    let message = '';
+    try {
+      loadConfig(join(fixturesDir, 'invalid.json'), {
+        ISSUE_CLOSED_WITHIN_DAYS: 'soon',
+        GITHUB_CONCURRENCY: '2.5',
+        GRAPH_CONCURRENCY: '0',
+      });
+    } catch (error) {
+      message = (error as Error).message;
+    }
+
+    expect(message).toContain('invalid.json');
+    for (const error of [
+      'clientSecret: must be a non-empty string',
+      'issueStates: unknown setting',
+      'ISSUE_CLOSED_WITHIN_DAYS: must be a number',
+      'GITHUB_CONCURRENCY: must be a whole number',
+      'GRAPH_CONCURRENCY: must be greater than 0',
+      'connections[0].type: must be one of issues, repositories',
+      'connections[0].schedule: Cron expression must have 5 fields',
+      'connections[1].aclMode: must be one of everyone, repository',
+      'connections[1].id: duplicate connection ID contosoissues',
+      'clientId: required',
+    ]) {
+      expect(message).toContain(error);
+    }
+  });
+});
@@ -0,0 +1,58 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { describe, expect, it } from 'vitest';
+
+import CachingIdentityMapper from '../src/identity/cachingIdentityMapper.js';
+import IdentityMapper from '../src/identity/identityMapper.js';
+
+/**
+ * A mapper that fails a number of times before mapping every
+ * login to `user-<login>`, and counts the lookups it gets.
+ */
+class FlakyIdentityMapper implements IdentityMapper {
+  public lookups = 0;
+  private failures: number;
+
+  constructor(failures: number) {
+    this.failures = failures;
+  }
+
+  public async getUserIdAsync(login: string): Promise<string | undefined> {
+    this.lookups++;
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error('Service unavailable');
+    }
+
+    return login === 'ghost' ? undefined : `user-${login}`;
+  }
+
+  public async getGroupIdAsync(_: string): Promise<string | undefined> {
+    return undefined;
+  }
+}
+
+describe('CachingIdentityMapper', () => {
+  it('caches mappings, including logins that could not be mapped', async () => {
+    const flaky = new FlakyIdentityMapper(0);
+    const mapper = new CachingIdentityMapper([flaky]);
+
+    expect(await mapper.getUserIdAsync('octocat')).toBe('user-octocat');
+    expect(await mapper.getUserIdAsync('OctoCat')).toBe('user-octocat');
+    expect(await mapper.getUserIdAsync('ghost')).toBeUndefined();
+    expect(await mapper.getUserIdAsync('ghost')).toBeUndefined();
+    expect(flaky.lookups).toBe(2);
+  });
+
+  it('passes on errors without caching them', async () => {
+    const flaky = new FlakyIdentityMapper(1);
+    const mapper = new CachingIdentityMapper([flaky]);
+
+    await expect(mapper.getUserIdAsync('octocat')).rejects.toThrow(
+      'Service unavailable',
+    );
+    expect(await mapper.getUserIdAsync('octocat')).toBe('user-octocat');
+    expect(flaky.lookups).toBe(2);
+  });
+});
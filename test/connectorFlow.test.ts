@@ -0,0 +1,882 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AddressInfo } from 'net';
+import { ExternalConnectors } from '@microsoft/microsoft-graph-types';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ItemTypeChoice } from '../src/menu.js';
+import SearchConnectorService from '../src/services/searchConnectorService.js';
+import RepositoryService, {
+  PullRequest,
+} from '../src/services/repositoryService.js';
+import StateService from '../src/services/stateService.js';
+import IngestionService from '../src/services/ingestionService.js';
+import ItemExport from '../src/pipeline/itemExport.js';
+import SchemaMigrationService from '../src/services/schemaMigrationService.js';
+import M365AppConfigService from '../src/services/m365AppConfigService.js';
+import FakeGraphServer from './fakes/fakeGraphServer.js';
+import FakeGitHubServer from './fakes/fakeGitHubServer.js';
+
+const connectionId = 'GitHubIssues';
+
+let graph: FakeGraphServer;
+let gitHub: FakeGitHubServer;
+let graphBaseUrl: string;
+let gitHubBaseUrl: string;
+let stateDir: string;
+let connectorService: SearchConnectorService;
+let repoService: RepositoryService;
+let stateService: StateService;
+let ingestionService: IngestionService;
+let schemaService: SchemaMigrationService;
+
+beforeEach(async () => {
+  // The services log their progress
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+
+  graph = new FakeGraphServer();
+  gitHub = new FakeGitHubServer('contoso');
+  graphBaseUrl = await graph.startAsync();
+  gitHubBaseUrl = await gitHub.startAsync();
+  stateDir = mkdtempSync(join(tmpdir(), 'connector-test-'));
+
+  connectorService = new SearchConnectorService({
+    gitHubOwner: 'contoso',
+    placeHolderUserId: 'placeholder',
+    graphBaseUrl: graphBaseUrl,
+    authProvider: { getAccessToken: async () => 'token' },
+    operationPollIntervalSeconds: 0.01,
+  });
+  repoService = new RepositoryService({
+    gitHubOwner: 'contoso',
+    gitHubToken: 'token',
+    gitHubBaseUrl: gitHubBaseUrl,
+    issueState: 'all',
+  });
+  stateService = new StateService({
+    stateFile: join(stateDir, 'state.json'),
+  });
+  ingestionService = new IngestionService(
+    connectorService,
+    repoService,
+    stateService,
+  );
+  schemaService = new SchemaMigrationService(
+    connectorService,
+    ingestionService,
+    stateService,
+  );
+});
+
+afterEach(async () => {
+  await graph.stopAsync();
+  await gitHub.stopAsync();
+  rmSync(stateDir, { recursive: true, force: true });
+  vi.restoreAllMocks();
+});
+
+/**
+ * Creates a connection and registers its schema.
+ *
+ * @param itemType - The type of items in the connection.
+ */
+async function createConnectionAsync(itemType: ItemTypeChoice) {
+  await connectorService.createConnectionAsync(
+    connectionId,
+    'GitHub',
+    itemType,
+  );
+  await schemaService.registerSchemaAsync(connectionId, itemType);
+}
+
+/**
+ * Gets the properties of an item, which Microsoft Graph's types
+ * don't describe as it depends on the connection's schema.
+ *
+ * @param item - The item.
+ * @returns The properties of the item, or an empty object if there's no item.
+ */
+function getProperties(
+  item?: ExternalConnectors.ExternalItem,
+): Record<string, unknown> {
+  return (item?.properties ?? {}) as Record<string, unknown>;
+}
+
+describe('connector flow', () => {
+  it('creates a connection, registers the schema, and pushes issues', async () => {
+    const repository = gitHub.addRepository('web');
+    const bug = gitHub.addIssue(repository, 'Login fails', {
+      body: 'Steps to **reproduce**',
+    });
+    gitHub.addIssue(repository, 'Old bug', {
+      state: 'closed',
+      closed_at: new Date().toISOString(),
+    });
+    gitHub.addComment(repository, bug, 'hubot', 'I can reproduce this');
+
+    await createConnectionAsync(ItemTypeChoice.Issues);
+    const report = await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      false,
+    );
+
+    expect(report.results).toMatchObject({
+      succeeded: true,
+      created: 2,
+      failed: 0,
+    });
+
+    const connection = graph.connections.get(connectionId)!;
+    expect(connection.schema?.properties?.map((p) => p.name)).toContain(
+      'commentCount',
+    );
+    expect([...connection.items.keys()].sort()).toEqual(['web-1', 'web-2']);
+
+    const item = connection.items.get('web-1')!;
+    expect(item.properties).toMatchObject({
+      title: 'Login fails',
+      state: 'open',
+      commentCount: 1,
+      lastCommentedBy: 'hubot',
+    });
+    expect(item.content?.value).toContain('Steps to reproduce');
+    expect(item.content?.value).toContain('I can reproduce this');
+    expect(
+      connection.activities.get('web-1')?.map((activity) => activity.type),
+    ).toContain('commented');
+
+    const connectionState = stateService.getConnectionState(connectionId);
+    expect(connectionState.schemaOperation?.status).toBe('completed');
+    expect(connectionState.schemaVersion).toBe(
+      SearchConnectorService.getSchemaVersionForItemType(ItemTypeChoice.Issues),
+    );
+    expect(connectionState.lastSyncTime).toBeDefined();
+  });
+
+  it('only pushes issues updated since the last sync when incremental', async () => {
+    const repository = gitHub.addRepository('web');
+    gitHub.addIssue(repository, 'First', {
+      updated_at: new Date(Date.now() - 60000).toISOString(),
+    });
+
+    await createConnectionAsync(ItemTypeChoice.Issues);
+    await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      true,
+    );
+
+    gitHub.addIssue(repository, 'Second', {
+      updated_at: new Date(Date.now() + 60000).toISOString(),
+    });
+    const report = await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      true,
+    );
+
+    expect(report.results).toMatchObject({
+      succeeded: true,
+      created: 1,
+      updated: 0,
+    });
+    expect(
+      gitHub.requests.filter((r) => r.path.endsWith('/issues/1/events')),
+    ).toHaveLength(1);
+  });
+
+  it('removes issues that no longer match the issue state when incremental', async () => {
+    ingestionService = new IngestionService(
+      connectorService,
+      new RepositoryService({
+        gitHubOwner: 'contoso',
+        gitHubToken: 'token',
+        gitHubBaseUrl: gitHubBaseUrl,
+        issueState: 'open',
+      }),
+      stateService,
+    );
+    const repository = gitHub.addRepository('web');
+    const fixed = gitHub.addIssue(repository, 'Fixed', {
+      updated_at: new Date(Date.now() - 60000).toISOString(),
+    });
+    gitHub.addIssue(repository, 'Open', {
+      updated_at: new Date(Date.now() - 60000).toISOString(),
+    });
+
+    await createConnectionAsync(ItemTypeChoice.Issues);
+    await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      true,
+    );
+    const items = graph.connections.get(connectionId)!.items;
+    expect([...items.keys()].sort()).toEqual(['web-1', 'web-2']);
+
+    const closedAt = new Date(Date.now() + 60000).toISOString();
+    fixed.state = 'closed';
+    fixed.closed_at = closedAt;
+    fixed.updated_at = closedAt;
+    const report = await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      true,
+    );
+
+    expect(report.results).toMatchObject({ succeeded: true, failed: 0 });
+    expect([...items.keys()]).toEqual(['web-2']);
+    expect(
+      stateService.getConnectionState(connectionId).ingestedItemIds,
+    ).toEqual(['web-2']);
+  });
+
+  it('pushes repositories with their README as content', async () => {
+    gitHub.addRepository('web', { stargazers_count: 5 }).readme =
+      '# Web\n\nThe website';
+
+    await createConnectionAsync(ItemTypeChoice.Repositories);
+    const report = await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Repositories,
+      false,
+    );
+
+    expect(report.results.succeeded).toBe(true);
+    const item = graph.connections.get(connectionId)!.items.get('1')!;
+    expect(getProperties(item).title).toBe('web');
+    expect(item.content?.value).toContain('The website');
+  });
+
+  it('records repositories that fail to convert by their item ID', async () => {
+    gitHub.addRepository('web');
+    gitHub.addRepository('api');
+
+    await createConnectionAsync(ItemTypeChoice.Repositories);
+    vi.spyOn(
+      connectorService,
+      'createExternalItemFromRepoAsync',
+    ).mockRejectedValueOnce(new Error('Bad repository'));
+    const report = await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Repositories,
+      false,
+    );
+
+    expect(report.results).toMatchObject({
+      succeeded: false,
+      created: 1,
+      failed: 1,
+    });
+    expect(report.results.errors.map((error) => error.id)).toEqual(['1']);
+    expect([...graph.connections.get(connectionId)!.items.keys()]).toEqual([
+      '2',
+    ]);
+  });
+
+  it('pushes open, closed, and merged pull requests', async () => {
+    const repository = gitHub.addRepository('web');
+    gitHub.addPullRequest(repository, 'Add login page');
+    gitHub.addPullRequest(repository, 'Fix login redirect', {
+      state: 'closed',
+      merged: true,
+      merged_at: new Date().toISOString(),
+      merged_by: { login: 'hubot' } as PullRequest['merged_by'],
+      closed_at: new Date().toISOString(),
+    });
+
+    await createConnectionAsync(ItemTypeChoice.PullRequests);
+    const report = await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.PullRequests,
+      false,
+    );
+
+    expect(report.results).toMatchObject({ created: 2, failed: 0 });
+    const connection = graph.connections.get(connectionId)!;
+    expect(connection.items.get('web-2')?.properties).toMatchObject({
+      state: 'closed',
+      isMerged: true,
+      lastModifiedBy: 'hubot',
+    });
+    expect(
+      connection.activities.get('web-2')?.map((activity) => activity.type),
+    ).toContain('modified');
+
+    // A merged pull request is kept when it's synced again
+    expect(
+      await ingestionService.syncPullRequestAsync(connectionId, 'web', 2),
+    ).toBe(true);
+    expect(connection.items.has('web-2')).toBe(true);
+  });
+
+  it('pushes Markdown documentation', async () => {
+    const repository = gitHub.addRepository('web');
+    repository.files.set('docs/setup/install.md', '# Install\n\nRun setup');
+    repository.files.set('src/index.ts', 'export {};');
+
+    await createConnectionAsync(ItemTypeChoice.Docs);
+    const report = await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Docs,
+      false,
+    );
+
+    expect(report.results.succeeded).toBe(true);
+    const items = graph.connections.get(connectionId)!.items;
+    const itemId = 'web~docs/setup/install.md';
+    expect([...items.keys()]).toEqual([itemId]);
+    expect(getProperties(items.get(itemId)).title).toBe('Install');
+
+    // Links to the file resolve to the item, even on branches with a slash
+    const resolver = graph.connections.get(connectionId)!.connection
+      .activitySettings!
+      .urlToItemResolvers![0] as ExternalConnectors.ItemIdResolver;
+    const match = new RegExp(resolver.urlMatchInfo!.urlPattern!).exec(
+      '/contoso/web/blob/feature/setup/docs/setup/install.md',
+    );
+    expect(
+      resolver.itemId!.replace(
+        /{(\w+)}/g,
+        (_, name: string) => match!.groups![name],
+      ),
+    ).toBe(itemId);
+
+    // IDs that would be too long are hashed instead
+    const longPath = `docs/${'a'.repeat(130)}.md`;
+    const longItemId = SearchConnectorService.getDocItemId(
+      repository.repo,
+      longPath,
+    );
+    expect(longItemId).toMatch(/^doc-\d+-[0-9a-f]{64}$/);
+  });
+
+  it('reads documentation folders one at a time when the tree is cut off', async () => {
+    gitHub.truncateTrees = true;
+    const repository = gitHub.addRepository('web');
+    repository.files.set('README.md', '# Web');
+    repository.files.set('docs/index.md', '# Overview');
+    repository.files.set('docs/setup/install.md', '# Install\n\nRun setup');
+    repository.files.set('src/notes.md', '# Notes');
+
+    await createConnectionAsync(ItemTypeChoice.Docs);
+    const report = await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Docs,
+      false,
+    );
+
+    expect(report.results).toMatchObject({ succeeded: true, created: 2 });
+    const items = graph.connections.get(connectionId)!.items;
+    expect(
+      [...items.values()].map((item) => getProperties(item).path).sort(),
+    ).toEqual(['docs/index.md', 'docs/setup/install.md']);
+
+    // The src folder can't contain documentation, so it isn't read
+    const treeRequests = gitHub.requests.filter((r) =>
+      r.path.includes('/git/trees/'),
+    );
+    expect(treeRequests).toHaveLength(4);
+  });
+
+  it('removes items that no longer exist in GitHub', async () => {
+    const repository = gitHub.addRepository('web');
+    gitHub.addIssue(repository, 'Kept');
+    gitHub.addIssue(repository, 'Deleted');
+
+    await createConnectionAsync(ItemTypeChoice.Issues);
+    await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      false,
+    );
+
+    repository.issues.pop();
+    await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      false,
+    );
+    expect(ingestionService.getStaleItemIds(connectionId)).toEqual(['web-2']);
+
+    expect(
+      await ingestionService.removeStaleItemsAsync(connectionId, false),
+    ).toBe(true);
+    expect([...graph.connections.get(connectionId)!.items.keys()]).toEqual([
+      'web-1',
+    ]);
+  });
+
+  it('skips items that have not changed unless forced', async () => {
+    const repository = gitHub.addRepository('web');
+    const bug = gitHub.addIssue(repository, 'Login fails');
+    gitHub.addIssue(repository, 'Typo');
+    gitHub.addComment(repository, bug, 'hubot', 'I can reproduce this');
+
+    await createConnectionAsync(ItemTypeChoice.Issues);
+    await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      false,
+    );
+
+    repository.issues[1].title = 'Typo in README';
+    const putCount = () =>
+      graph.requests.filter((r) => r.method === 'PUT').length;
+    let requestCount = putCount();
+    const report = await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      false,
+    );
+
+    expect(report.results).toMatchObject({
+      succeeded: true,
+      updated: 1,
+      skipped: 1,
+      activitiesAdded: 0,
+    });
+    expect(putCount() - requestCount).toBe(1);
+    expect(
+      getProperties(graph.connections.get(connectionId)!.items.get('web-2'))
+        .title,
+    ).toBe('Typo in README');
+
+    requestCount = putCount();
+    const forced = await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      false,
+      { force: true },
+    );
+    expect(forced.results).toMatchObject({ updated: 2, skipped: 0 });
+    expect(putCount() - requestCount).toBe(2);
+  });
+
+  it('pushes items again if their activities failed', async () => {
+    const repository = gitHub.addRepository('web');
+    const bug = gitHub.addIssue(repository, 'Login fails');
+    gitHub.addComment(repository, bug, 'hubot', 'I can reproduce this');
+
+    await createConnectionAsync(ItemTypeChoice.Issues);
+    graph.failNext('POST', /\/addActivities$/, 400);
+    const failed = await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      false,
+    );
+    expect(failed.results).toMatchObject({
+      succeeded: false,
+      created: 1,
+      failed: 0,
+      incomplete: 1,
+    });
+
+    const report = await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      false,
+    );
+    expect(report.results).toMatchObject({
+      succeeded: true,
+      updated: 1,
+      skipped: 0,
+    });
+    expect(
+      graph.connections.get(connectionId)!.activities.get('web-1')?.length,
+    ).toBeGreaterThan(0);
+  });
+
+  it('keeps the pushed issue if its comments fail to load', async () => {
+    const repository = gitHub.addRepository('web');
+    const bug = gitHub.addIssue(repository, 'Login fails');
+    gitHub.addComment(repository, bug, 'hubot', 'I can reproduce this');
+
+    await createConnectionAsync(ItemTypeChoice.Issues);
+    await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      false,
+    );
+    const item = graph.connections.get(connectionId)!.items.get('web-1');
+
+    bug.title = 'Login fails on Safari';
+    vi.spyOn(repoService, 'getCommentsForIssueAsync').mockRejectedValueOnce(
+      new Error('Server Error'),
+    );
+    const report = await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      false,
+    );
+
+    expect(report.results).toMatchObject({
+      succeeded: false,
+      updated: 0,
+      skipped: 1,
+      failed: 0,
+      incomplete: 1,
+    });
+    expect(graph.connections.get(connectionId)!.items.get('web-1')).toEqual(
+      item,
+    );
+  });
+
+  it('only adds activities for new events unless backfilling', async () => {
+    const repository = gitHub.addRepository('web');
+    const bug = gitHub.addIssue(repository, 'Login fails');
+    gitHub.addComment(repository, bug, 'hubot', 'I can reproduce this');
+
+    await createConnectionAsync(ItemTypeChoice.Issues);
+    await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      false,
+    );
+
+    gitHub.addComment(repository, bug, 'octocat', 'Fixed in the next release');
+    const report = await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      false,
+    );
+
+    expect(report.results).toMatchObject({ updated: 1, activitiesAdded: 1 });
+    const activities = graph.connections.get(connectionId)!.activities;
+    expect(activities.get('web-1')?.map((activity) => activity.type)).toEqual([
+      'created',
+      'commented',
+      'commented',
+    ]);
+    expect(activities.get('web-1')![0]).not.toHaveProperty('eventId');
+
+    const backfill = await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      false,
+      { backfillActivities: true },
+    );
+    expect(backfill.results).toMatchObject({ skipped: 1, activitiesAdded: 2 });
+    expect(activities.get('web-1')).toHaveLength(5);
+  });
+
+  it('only sends the created activity the first time an item is pushed', async () => {
+    const repository = gitHub.addRepository('web');
+    const bug = gitHub.addIssue(repository, 'Login fails');
+
+    await createConnectionAsync(ItemTypeChoice.Issues);
+    await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      false,
+    );
+
+    bug.title = 'Login fails on Safari';
+    const report = await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      false,
+    );
+
+    expect(report.results).toMatchObject({ updated: 1 });
+    const connection = graph.connections.get(connectionId)!;
+    expect(connection.items.get('web-1')?.properties).toMatchObject({
+      title: 'Login fails on Safari',
+    });
+    expect(
+      connection.activities.get('web-1')?.map((activity) => activity.type),
+    ).toEqual(['created']);
+  });
+
+  it('retries item requests throttled by Microsoft Graph', async () => {
+    const repository = gitHub.addRepository('web');
+    gitHub.addIssue(repository, 'Throttled');
+
+    await createConnectionAsync(ItemTypeChoice.Issues);
+    graph.failNext('PUT', /\/items\//, 429, 1, { 'Retry-After': '1' });
+    const report = await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      false,
+    );
+
+    expect(report.results).toMatchObject({ succeeded: true, created: 1 });
+    expect(
+      graph.requests.filter(
+        (r) => r.method === 'PUT' && r.path.includes('/items/'),
+      ),
+    ).toHaveLength(2);
+  });
+
+  it('reports items rejected by Microsoft Graph', async () => {
+    const repository = gitHub.addRepository('web');
+    gitHub.addIssue(repository, 'Rejected');
+
+    await createConnectionAsync(ItemTypeChoice.Issues);
+    graph.failNext('PUT', /\/items\//, 400);
+    const report = await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      false,
+    );
+
+    expect(report.results).toMatchObject({ succeeded: false, failed: 1 });
+    expect(report.results.errors[0].id).toBe('web-1');
+  });
+
+  it('writes items to a file instead of pushing them during a dry run', async () => {
+    const repository = gitHub.addRepository('web');
+    const bug = gitHub.addIssue(repository, 'Login fails');
+    gitHub.addIssue(repository, 'Typo');
+    gitHub.addComment(repository, bug, 'hubot', 'I can reproduce this');
+
+    await createConnectionAsync(ItemTypeChoice.Issues);
+    const dryRunFile = join(stateDir, 'issues.ndjson');
+    const report = await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      true,
+      { dryRunFile: dryRunFile },
+    );
+
+    expect(report.results).toMatchObject({ succeeded: true, created: 2 });
+    expect(graph.connections.get(connectionId)!.items.size).toBe(0);
+    const connectionState = stateService.getConnectionState(connectionId);
+    expect(connectionState.lastSyncTime).toBeUndefined();
+    expect(connectionState.ingestedItemIds ?? []).toHaveLength(0);
+
+    const records = readFileSync(dryRunFile, 'utf-8')
+      .trimEnd()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(records.map((r) => [r.type, r.item?.id ?? r.itemId])).toEqual([
+      ['item', 'web-1'],
+      ['activities', 'web-1'],
+      ['item', 'web-2'],
+    ]);
+    expect(records[0].item.properties.title).toBe('Login fails');
+    expect(records[0].errors).toBeUndefined();
+  });
+
+  it('checks items against the registered schema during a dry run', async () => {
+    const repository = gitHub.addRepository('web');
+    gitHub.addIssue(repository, 'Login fails');
+
+    await createConnectionAsync(ItemTypeChoice.Issues);
+    const schema = graph.connections.get(connectionId)!.schema!;
+    schema.properties = schema.properties!.filter(
+      (p) => p.name !== 'commentCount',
+    );
+    const dryRunFile = join(stateDir, 'issues.ndjson');
+    const report = await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      false,
+      { dryRunFile: dryRunFile },
+    );
+
+    expect(report.results).toMatchObject({ succeeded: false, failed: 1 });
+    expect(report.results.errors[0].reason).toContain(
+      'commentCount is not in the schema',
+    );
+    const record = JSON.parse(readFileSync(dryRunFile, 'utf-8'));
+    expect(record.errors).toEqual(['commentCount is not in the schema']);
+  });
+
+  it('checks items against a registered schema with types in a different case', async () => {
+    const repository = gitHub.addRepository('web');
+    const bug = gitHub.addIssue(repository, 'Login fails');
+    gitHub.addComment(repository, bug, 'hubot', 'I can reproduce this');
+
+    await createConnectionAsync(ItemTypeChoice.Issues);
+    const schema = graph.connections.get(connectionId)!.schema!;
+    schema.properties = schema.properties!.map((p) => ({
+      ...p,
+      type: (p.type![0].toUpperCase() +
+        p.type!.slice(1)) as ExternalConnectors.PropertyType,
+    }));
+    expect(schema.properties.map((p) => p.type)).toContain('DateTime');
+
+    const dryRunFile = join(stateDir, 'issues.ndjson');
+    const report = await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      false,
+      { dryRunFile: dryRunFile },
+    );
+
+    expect(report.results).toMatchObject({ succeeded: true, failed: 0 });
+    const record = JSON.parse(readFileSync(dryRunFile, 'utf-8').split('\n')[0]);
+    expect(record.errors).toBeUndefined();
+  });
+
+  it('restores a backup to a new connection without getting items from GitHub', async () => {
+    const repository = gitHub.addRepository('web');
+    const bug = gitHub.addIssue(repository, 'Login fails');
+    gitHub.addIssue(repository, 'Typo');
+    gitHub.addComment(repository, bug, 'hubot', 'I can reproduce this');
+
+    await createConnectionAsync(ItemTypeChoice.Issues);
+    const backupFile = join(stateDir, 'issues.backup.ndjson');
+    await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      false,
+      { backupFile: backupFile },
+    );
+    const pushed = graph.connections.get(connectionId)!;
+
+    await connectorService.deleteConnectionAsync(connectionId);
+    await stateService.deleteConnectionStateAsync(connectionId);
+    await createConnectionAsync(ItemTypeChoice.Issues);
+    const gitHubRequestCount = gitHub.requests.length;
+    const report = await ingestionService.restoreItemsAsync(
+      connectionId,
+      backupFile,
+    );
+
+    expect(report.results).toMatchObject({
+      succeeded: true,
+      created: 2,
+      activitiesAdded: 1,
+    });
+    expect(gitHub.requests).toHaveLength(gitHubRequestCount);
+    const restored = graph.connections.get(connectionId)!;
+    expect(restored.items).toEqual(pushed.items);
+    expect(restored.activities).toEqual(pushed.activities);
+    expect(
+      stateService.getConnectionState(connectionId).ingestedItemIds?.sort(),
+    ).toEqual(['web-1', 'web-2']);
+  });
+
+  it('gives up waiting for a connection to be deleted', async () => {
+    await createConnectionAsync(ItemTypeChoice.Issues);
+    const impatientService = new SearchConnectorService({
+      gitHubOwner: 'contoso',
+      placeHolderUserId: 'placeholder',
+      graphBaseUrl: graphBaseUrl,
+      authProvider: { getAccessToken: async () => 'token' },
+      operationTimeoutMinutes: 0.001,
+    });
+
+    await expect(
+      impatientService.waitForConnectionDeletedAsync(connectionId),
+    ).rejects.toThrow(
+      `Connection ${connectionId} was not deleted within 0.001 minutes`,
+    );
+  });
+
+  it('only restores activities that were not added unless backfilling', async () => {
+    const repository = gitHub.addRepository('web');
+    const bug = gitHub.addIssue(repository, 'Login fails');
+    gitHub.addComment(repository, bug, 'hubot', 'I can reproduce this');
+
+    await createConnectionAsync(ItemTypeChoice.Issues);
+    const backupFile = join(stateDir, 'issues.backup.ndjson');
+    await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      false,
+      { backupFile: backupFile },
+    );
+    const activities = graph.connections.get(connectionId)!.activities;
+    expect(activities.get('web-1')).toHaveLength(2);
+
+    const report = await ingestionService.restoreItemsAsync(
+      connectionId,
+      backupFile,
+    );
+    expect(report.results).toMatchObject({ updated: 1, activitiesAdded: 0 });
+    expect(activities.get('web-1')).toHaveLength(2);
+
+    const backfill = await ingestionService.restoreItemsAsync(
+      connectionId,
+      backupFile,
+      true,
+    );
+    expect(backfill.results).toMatchObject({ activitiesAdded: 1 });
+    expect(activities.get('web-1')).toHaveLength(4);
+  });
+
+  it('updates a backup during an incremental push', async () => {
+    const repository = gitHub.addRepository('web');
+    gitHub.addIssue(repository, 'First', {
+      updated_at: new Date(Date.now() - 60000).toISOString(),
+    });
+
+    await createConnectionAsync(ItemTypeChoice.Issues);
+    const backupFile = join(stateDir, 'issues.backup.ndjson');
+    await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      true,
+      { backupFile: backupFile },
+    );
+
+    gitHub.addIssue(repository, 'Second', {
+      updated_at: new Date(Date.now() + 60000).toISOString(),
+    });
+    await ingestionService.pushItemsAsync(
+      connectionId,
+      ItemTypeChoice.Issues,
+      true,
+      { backupFile: backupFile },
+    );
+
+    const backup = await ItemExport.loadAsync(backupFile);
+    expect(backup.getItems().map((i) => getProperties(i.item).title)).toEqual([
+      'First',
+      'Second',
+    ]);
+  });
+});
+
+describe('M365AppConfigService', () => {
+  it('ignores notifications that fail validation', async () => {
+    const configService = new M365AppConfigService(
+      connectorService,
+      schemaService,
+      {
+        clientId: 'client',
+        tenantId: 'tenant',
+        port: 0,
+      },
+    );
+    const server = configService.listen();
+    await new Promise((resolve) => server.once('listening', resolve));
+
+    try {
+      const { port } = server.address() as AddressInfo;
+      const response = await fetch(`http://localhost:${port}/`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          value: [
+            {
+              resourceData: {
+                '@odata.type': '#Microsoft.Graph.connector',
+                id: 'connector',
+                state: 'enabled',
+              },
+            },
+          ],
+          validationTokens: ['not-a-token'],
+        }),
+      });
+      expect(response.status).toBe(202);
+
+      // Validation runs after the response is sent
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(graph.connections.size).toBe(0);
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('Token validation error'),
+      );
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,53 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { describe, expect, it } from 'vitest';
+
+import CronSchedule from '../src/pipeline/cronSchedule.js';
+
+/**
+ * Gets the next time a schedule matches after a local time.
+ *
+ * @param expression - The cron expression.
+ * @param after - The local time, as `YYYY-MM-DDTHH:mm`.
+ * @returns The next time as `YYYY-MM-DDTHH:mm`, or undefined.
+ */
+function next(expression: string, after: string): string | undefined {
+  const time = new CronSchedule(expression).getNextTime(new Date(after));
+  if (!time) {
+    return undefined;
+  }
+
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${time.getFullYear()}-${pad(time.getMonth() + 1)}-${pad(time.getDate())}T${pad(time.getHours())}:${pad(time.getMinutes())}`;
+}
+
+describe('CronSchedule', () => {
+  it.each([
+    ['* * * * *', '2026-03-10T08:15', '2026-03-10T08:16'],
+    ['0 * * * *', '2026-03-10T08:00', '2026-03-10T09:00'],
+    ['*/15 * * * *', '2026-03-10T08:31', '2026-03-10T08:45'],
+    ['30 2 * * *', '2026-03-10T08:15', '2026-03-11T02:30'],
+    ['0 9-17/4 * * *', '2026-03-10T13:00', '2026-03-10T17:00'],
+    ['0 0 1 * *', '2026-12-15T00:00', '2027-01-01T00:00'],
+    ['0 6 * * 1-5', '2026-03-13T07:00', '2026-03-16T06:00'],
+    ['0 6 * * 7', '2026-03-10T07:00', '2026-03-15T06:00'],
+    ['0 0 29 2 *', '2026-03-01T00:00', '2028-02-29T00:00'],
+    // Either the day of month or the day of week matches
+    ['0 0 13 * 5', '2026-03-10T00:00', '2026-03-13T00:00'],
+    ['0 0 20 * 1', '2026-03-10T00:00', '2026-03-16T00:00'],
+  ])('%s after %s is %s', (expression, after, expected) => {
+    expect(next(expression, after)).toBe(expected);
+  });
+
+  it('returns undefined for a schedule that never matches', () => {
+    expect(next('0 0 30 2 *', '2026-03-10T00:00')).toBeUndefined();
+  });
+
+  it.each(['* * * *', '60 * * * *', '* * 0 * *', '5-1 * * * *', '*/0 * * * *'])(
+    'rejects %s',
+    (expression) => {
+      expect(() => new CronSchedule(expression)).toThrowError();
+    },
+  );
+});
@@ -0,0 +1,485 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { createHash } from 'crypto';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import e, { Request, Response } from 'express';
+
+import {
+  Collaborator,
+  Issue,
+  IssueComment,
+  IssueEvent,
+  PullRequest,
+  PullRequestReview,
+  Release,
+  Repository,
+  Team,
+} from '../../src/services/repositoryService.js';
+
+/**
+ * A repository and its contents stored by the fake server.
+ */
+export type FakeRepository = {
+  repo: Repository;
+  issues: Issue[];
+  comments: Map<number, IssueComment[]>;
+  issueEvents: Map<number, IssueEvent[]>;
+  pullRequests: PullRequest[];
+  reviews: Map<number, PullRequestReview[]>;
+  releases: Release[];
+  collaborators: Collaborator[];
+  teams: Team[];
+  readme?: string;
+  // The contents of files on the default branch, by path
+  files: Map<string, string>;
+};
+
+/**
+ * A local stand-in for the GitHub REST API endpoints used by the
+ * repository service. Every list is returned as a single page.
+ */
+export default class FakeGitHubServer {
+  /**
+   * The repositories, by name.
+   */
+  public readonly repositories = new Map<string, FakeRepository>();
+
+  /**
+   * Whether recursive trees are cut off after the first file,
+   * as GitHub does for large repositories.
+   */
+  public truncateTrees = false;
+
+  /**
+   * The method and path of each request received, in order.
+   */
+  public readonly requests: { method: string; path: string }[] = [];
+
+  private owner: string;
+  private ownerIsOrganization: boolean;
+  private server?: Server;
+
+  /**
+   * Initializes a new instance of the FakeGitHubServer class.
+   *
+   * @param owner - The user or organization that owns the repositories.
+   * @param ownerIsOrganization - False if the owner is a user.
+   */
+  constructor(owner: string, ownerIsOrganization = true) {
+    this.owner = owner;
+    this.ownerIsOrganization = ownerIsOrganization;
+  }
+
+  /**
+   * Starts listening on a free port.
+   *
+   * @returns The base URL to pass to the repository service.
+   */
+  public async startAsync(): Promise<string> {
+    const app = e();
+    app.use((req, res, next) => {
+      this.requests.push({ method: req.method, path: req.path });
+      next();
+    });
+
+    app.get('/orgs/:org/repos', (req, res) => {
+      if (!this.ownerIsOrganization || !this.isOwner(req.params.org)) {
+        sendNotFound(res);
+        return;
+      }
+      res.json(this.listRepositories());
+    });
+    app.get('/users/:username/repos', (req, res) => {
+      if (!this.isOwner(req.params.username)) {
+        sendNotFound(res);
+        return;
+      }
+      res.json(this.listRepositories());
+    });
+    app.get('/users/:username', (req, res) => {
+      res.json({ login: req.params.username, email: null });
+    });
+
+    const repoRouter = e.Router({ mergeParams: true });
+    repoRouter.get('/', (req, res) => {
+      res.json(getRepository(res).repo);
+    });
+    repoRouter.get('/issues', (req, res) => {
+      res.json(this.listIssues(getRepository(res), req));
+    });
+    repoRouter.get('/issues/:number', (req, res) => {
+      const issue = getRepository(res).issues.find(
+        (i) => i.number === Number(req.params.number),
+      );
+      if (issue) {
+        res.json(issue);
+      } else {
+        sendNotFound(res);
+      }
+    });
+    repoRouter.get('/issues/:number/comments', (req, res) => {
+      res.json(
+        getRepository(res).comments.get(Number(req.params.number)) ?? [],
+      );
+    });
+    repoRouter.get('/issues/:number/events', (req, res) => {
+      res.json(
+        getRepository(res).issueEvents.get(Number(req.params.number)) ?? [],
+      );
+    });
+    repoRouter.get('/pulls', (req, res) => {
+      const state = (req.query.state as string | undefined) ?? 'open';
+      res.json(
+        getRepository(res).pullRequests.filter(
+          (p) => state === 'all' || p.state === state,
+        ),
+      );
+    });
+    repoRouter.get('/pulls/:number', (req, res) => {
+      const pullRequest = getRepository(res).pullRequests.find(
+        (p) => p.number === Number(req.params.number),
+      );
+      if (pullRequest) {
+        res.json(pullRequest);
+      } else {
+        sendNotFound(res);
+      }
+    });
+    repoRouter.get('/pulls/:number/reviews', (req, res) => {
+      res.json(getRepository(res).reviews.get(Number(req.params.number)) ?? []);
+    });
+    repoRouter.get('/readme', (req, res) => {
+      const readme = getRepository(res).readme;
+      if (readme === undefined) {
+        sendNotFound(res);
+        return;
+      }
+      res.json({
+        type: 'file',
+        name: 'README.md',
+        path: 'README.md',
+        encoding: 'base64',
+        content: Buffer.from(readme).toString('base64'),
+      });
+    });
+    repoRouter.get('/events', (req, res) => {
+      res.json([]);
+    });
+    repoRouter.get('/collaborators', (req, res) => {
+      res.json(getRepository(res).collaborators);
+    });
+    repoRouter.get('/teams', (req, res) => {
+      res.json(getRepository(res).teams);
+    });
+    repoRouter.get('/releases', (req, res) => {
+      res.json(getRepository(res).releases);
+    });
+    repoRouter.get('/git/trees/:sha', (req, res) => {
+      const repository = getRepository(res);
+      if (req.query.recursive) {
+        const files = [...repository.files.entries()];
+        res.json({
+          sha: req.params.sha,
+          truncated: this.truncateTrees,
+          tree: (this.truncateTrees ? files.slice(0, 1) : files).map(
+            ([path, content]) => blobEntry(path, content),
+          ),
+        });
+        return;
+      }
+
+      // The SHA of a folder's tree is its path, hex encoded
+      const folder =
+        req.params.sha === repository.repo.default_branch
+          ? ''
+          : Buffer.from(req.params.sha, 'hex').toString();
+      res.json({
+        sha: req.params.sha,
+        truncated: false,
+        tree: listFolder(repository, folder),
+      });
+    });
+    repoRouter.get('/git/blobs/:sha', (req, res) => {
+      const content = [...getRepository(res).files.values()].find(
+        (c) => blobSha(c) === req.params.sha,
+      );
+      if (content === undefined) {
+        sendNotFound(res);
+        return;
+      }
+      res.json({
+        sha: req.params.sha,
+        encoding: 'base64',
+        content: Buffer.from(content).toString('base64'),
+      });
+    });
+    app.use(
+      '/repos/:owner/:repo',
+      (req, res, next) => {
+        const repository = this.repositories.get(req.params.repo);
+        if (!this.isOwner(req.params.owner) || !repository) {
+          sendNotFound(res);
+          return;
+        }
+        res.locals.repository = repository;
+        next();
+      },
+      repoRouter,
+    );
+
+    app.use((req, res) => sendNotFound(res));
+
+    this.server = await new Promise<Server>((resolve) => {
+      const server = app.listen(0, '127.0.0.1', () => resolve(server));
+    });
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /**
+   * Stops listening.
+   */
+  public async stopAsync(): Promise<void> {
+    await new Promise<void>((resolve, reject) =>
+      this.server?.close((error) => (error ? reject(error) : resolve())),
+    );
+  }
+
+  /**
+   * Adds a repository.
+   *
+   * @param name - The name of the repository.
+   * @param overrides - Values to set on the repository.
+   * @returns The repository's contents, which can be added to.
+   */
+  public addRepository(
+    name: string,
+    overrides: Partial<Repository> = {},
+  ): FakeRepository {
+    const id = this.repositories.size + 1;
+    const now = new Date().toISOString();
+    const repository: FakeRepository = {
+      repo: {
+        id: id,
+        name: name,
+        full_name: `${this.owner}/${name}`,
+        owner: {
+          login: this.owner,
+          html_url: `https://github.com/${this.owner}`,
+        },
+        private: false,
+        visibility: 'public',
+        html_url: `https://github.com/${this.owner}/${name}`,
+        description: `The ${name} repository`,
+        default_branch: 'main',
+        has_issues: true,
+        has_discussions: false,
+        created_at: now,
+        updated_at: now,
+        ...overrides,
+      } as Repository,
+      issues: [],
+      comments: new Map(),
+      issueEvents: new Map(),
+      pullRequests: [],
+      reviews: new Map(),
+      releases: [],
+      collaborators: [],
+      teams: [],
+      files: new Map(),
+    };
+    this.repositories.set(name, repository);
+    return repository;
+  }
+
+  /**
+   * Adds an issue to a repository.
+   *
+   * @param repository - The repository.
+   * @param title - The title of the issue.
+   * @param overrides - Values to set on the issue.
+   * @returns The issue.
+   */
+  public addIssue(
+    repository: FakeRepository,
+    title: string,
+    overrides: Partial<Issue> = {},
+  ): Issue {
+    const number = repository.issues.length + 1;
+    const now = new Date().toISOString();
+    const issue = {
+      id: number,
+      number: number,
+      title: title,
+      body: `Body of ${title}`,
+      state: 'open',
+      user: { login: 'octocat' },
+      assignees: [],
+      labels: [],
+      html_url: `${repository.repo.html_url}/issues/${number}`,
+      created_at: now,
+      updated_at: now,
+      closed_at: null,
+      ...overrides,
+    } as Issue;
+    repository.issues.push(issue);
+    return issue;
+  }
+
+  /**
+   * Adds a pull request to a repository.
+   *
+   * @param repository - The repository.
+   * @param title - The title of the pull request.
+   * @param overrides - Values to set on the pull request.
+   * @returns The pull request.
+   */
+  public addPullRequest(
+    repository: FakeRepository,
+    title: string,
+    overrides: Partial<PullRequest> = {},
+  ): PullRequest {
+    const number = repository.pullRequests.length + 1;
+    const now = new Date().toISOString();
+    const pullRequest = {
+      id: number,
+      number: number,
+      title: title,
+      body: `Body of ${title}`,
+      state: 'open',
+      merged: false,
+      merged_at: null,
+      merged_by: null,
+      draft: false,
+      user: { login: 'octocat' },
+      assignees: [],
+      requested_reviewers: [],
+      requested_teams: [],
+      labels: [],
+      base: { ref: 'main' },
+      head: { ref: `feature-${number}` },
+      changed_files: 1,
+      html_url: `${repository.repo.html_url}/pull/${number}`,
+      created_at: now,
+      updated_at: now,
+      closed_at: null,
+      ...overrides,
+    } as unknown as PullRequest;
+    repository.pullRequests.push(pullRequest);
+    return pullRequest;
+  }
+
+  /**
+   * Adds a comment to an issue.
+   *
+   * @param repository - The repository that contains the issue.
+   * @param issue - The issue.
+   * @param login - The login of the comment's author.
+   * @param body - The comment.
+   * @returns The comment.
+   */
+  public addComment(
+    repository: FakeRepository,
+    issue: Issue,
+    login: string,
+    body: string,
+  ): IssueComment {
+    const comments = repository.comments.get(issue.number) ?? [];
+    const comment = {
+      id: issue.number * 1000 + comments.length + 1,
+      body: body,
+      user: { login: login },
+      created_at: new Date().toISOString(),
+    } as IssueComment;
+    repository.comments.set(issue.number, [...comments, comment]);
+    return comment;
+  }
+
+  private isOwner(login: string): boolean {
+    return login.toLowerCase() === this.owner.toLowerCase();
+  }
+
+  private listRepositories(): Repository[] {
+    return [...this.repositories.values()].map((r) => r.repo);
+  }
+
+  /**
+   * Lists issues, filtered by the state and since query parameters.
+   */
+  private listIssues(repository: FakeRepository, req: Request): Issue[] {
+    const state = (req.query.state as string | undefined) ?? 'open';
+    const since = req.query.since as string | undefined;
+    return repository.issues.filter(
+      (issue) =>
+        (state === 'all' || issue.state === state) &&
+        (!since || new Date(issue.updated_at) >= new Date(since)),
+    );
+  }
+}
+
+/**
+ * Gets the repository found by the repository middleware.
+ */
+function getRepository(res: Response): FakeRepository {
+  return res.locals.repository as FakeRepository;
+}
+
+/**
+ * Computes the SHA of a file's contents, as Git does for blobs.
+ */
+function blobSha(content: string): string {
+  return createHash('sha1')
+    .update(`blob ${Buffer.byteLength(content)}\0${content}`)
+    .digest('hex');
+}
+
+/**
+ * Sends a 404 in the format used by GitHub.
+ */
+function sendNotFound(res: Response) {
+  res.status(404).json({ message: 'Not Found' });
+}
+
+/**
+ * Gets the tree entry for a file.
+ */
+function blobEntry(path: string, content: string) {
+  return {
+    path: path,
+    type: 'blob',
+    mode: '100644',
+    sha: blobSha(content),
+    size: content.length,
+  };
+}
+
+/**
+ * Lists the files and folders directly in a folder of a repository,
+ * with paths relative to the folder.
+ */
+function listFolder(repository: FakeRepository, folder: string) {
+  const prefix = folder ? `${folder}/` : '';
+  const entries = new Map<string, object>();
+  for (const [path, content] of repository.files) {
+    if (!path.startsWith(prefix)) {
+      continue;
+    }
+
+    const [name, ...rest] = path.slice(prefix.length).split('/');
+    entries.set(
+      name,
+      rest.length > 0
+        ? {
+            path: name,
+            type: 'tree',
+            mode: '040000',
+            sha: Buffer.from(`${prefix}${name}`).toString('hex'),
+          }
+        : blobEntry(name, content),
+    );
+  }
+
+  return [...entries.values()];
+}
@@ -0,0 +1,348 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import e, { NextFunction, Request, Response } from 'express';
+import { ExternalConnectors } from '@microsoft/microsoft-graph-types';
+
+/**
+ * A connection stored by the fake server.
+ */
+export type FakeConnection = {
+  connection: ExternalConnectors.ExternalConnection;
+  schema?: ExternalConnectors.Schema;
+  items: Map<string, ExternalConnectors.ExternalItem>;
+  // Activities added with addActivities, by item ID
+  activities: Map<string, ExternalConnectors.ExternalActivity[]>;
+};
+
+/**
+ * A response returned instead of handling matching requests.
+ */
+type Failure = {
+  method: string;
+  path: RegExp;
+  status: number;
+  headers: Record<string, string>;
+  remaining: number;
+};
+
+/**
+ * A local stand-in for the Microsoft Graph external connections API.
+ *
+ * @remarks
+ * Connections, schemas, items, and activities are kept in memory. Schema
+ * operations report `inprogress` the first time they're checked, then
+ * `completed`. Items are checked against the registered schema, as
+ * Microsoft Graph rejects items with properties that aren't in it.
+ */
+export default class FakeGraphServer {
+  /**
+   * The connections, by connection ID.
+   */
+  public readonly connections = new Map<string, FakeConnection>();
+
+  /**
+   * The method and path of each request received, in order.
+   */
+  public readonly requests: { method: string; path: string }[] = [];
+
+  private operations = new Map<string, { checks: number }>();
+  private failures: Failure[] = [];
+  private nextOperationId = 1;
+  private server?: Server;
+
+  /**
+   * Starts listening on a free port.
+   *
+   * @returns The base URL to pass to the connector service.
+   */
+  public async startAsync(): Promise<string> {
+    const app = e();
+    app.use(e.json({ limit: '10mb' }));
+    app.use((req, res, next) => this.recordRequest(req, res, next));
+
+    const router = e.Router();
+    router.post('/external/connections', (req, res) =>
+      this.createConnection(req, res),
+    );
+    router.get('/external/connections', (req, res) => {
+      res.json({
+        value: [...this.connections.values()].map((c) => c.connection),
+      });
+    });
+    router.get('/external/connections/:connectionId', (req, res) => {
+      const connection = this.getConnection(req, res);
+      if (connection) {
+        res.json(connection.connection);
+      }
+    });
+    router.delete('/external/connections/:connectionId', (req, res) => {
+      if (this.getConnection(req, res)) {
+        this.connections.delete(req.params.connectionId);
+        res.sendStatus(204);
+      }
+    });
+    router.get('/external/connections/:connectionId/schema', (req, res) => {
+      const connection = this.getConnection(req, res);
+      if (connection && !connection.schema) {
+        sendError(res, 404, 'ItemNotFound', 'Schema not found');
+      } else if (connection) {
+        res.json(connection.schema);
+      }
+    });
+    router.post('/external/connections/:connectionId/schema', (req, res) =>
+      this.setSchema(req, res),
+    );
+    router.patch('/external/connections/:connectionId/schema', (req, res) =>
+      this.setSchema(req, res),
+    );
+    router.get(
+      '/external/connections/:connectionId/operations/:operationId',
+      (req, res) => this.getOperation(req, res),
+    );
+    router.put(
+      '/external/connections/:connectionId/items/:itemId',
+      (req, res) => this.putItem(req, res),
+    );
+    router.delete(
+      '/external/connections/:connectionId/items/:itemId',
+      (req, res) => {
+        const connection = this.getConnection(req, res);
+        if (!connection) {
+          return;
+        }
+        if (!connection.items.delete(req.params.itemId)) {
+          sendError(res, 404, 'ItemNotFound', 'Item not found');
+          return;
+        }
+        res.sendStatus(204);
+      },
+    );
+    router.post(
+      '/external/connections/:connectionId/items/:itemId/addActivities',
+      (req, res) => this.addActivities(req, res),
+    );
+    router.get('/users', (req, res) => {
+      res.json({ value: [] });
+    });
+    app.use('/v1.0', router);
+
+    this.server = await new Promise<Server>((resolve) => {
+      const server = app.listen(0, '127.0.0.1', () => resolve(server));
+    });
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /**
+   * Stops listening.
+   */
+  public async stopAsync(): Promise<void> {
+    await new Promise<void>((resolve, reject) =>
+      this.server?.close((error) => (error ? reject(error) : resolve())),
+    );
+  }
+
+  /**
+   * Returns an error for the next matching requests instead of handling
+   * them, for example to test how throttling is handled.
+   *
+   * @param method - The HTTP method to match.
+   * @param path - Matches the path of the request, after `/v1.0`.
+   * @param status - The status code to return.
+   * @param times - How many requests to fail.
+   * @param headers - Headers to return, such as `Retry-After`.
+   */
+  public failNext(
+    method: string,
+    path: RegExp,
+    status: number,
+    times = 1,
+    headers: Record<string, string> = {},
+  ) {
+    this.failures.push({
+      method: method.toUpperCase(),
+      path: path,
+      status: status,
+      headers: headers,
+      remaining: times,
+    });
+  }
+
+  /**
+   * Records a request, and returns an injected failure if one matches.
+   */
+  private recordRequest(req: Request, res: Response, next: NextFunction) {
+    const path = req.path.replace(/^\/v1\.0/, '');
+    this.requests.push({ method: req.method, path: path });
+
+    const failure = this.failures.find(
+      (f) => f.remaining > 0 && f.method === req.method && f.path.test(path),
+    );
+    if (failure) {
+      failure.remaining--;
+      res.set(failure.headers);
+      sendError(res, failure.status, 'InjectedFailure', 'Injected failure');
+      return;
+    }
+
+    next();
+  }
+
+  private createConnection(req: Request, res: Response) {
+    const connection = req.body as ExternalConnectors.ExternalConnection;
+    if (!connection.id || !/^[0-9a-zA-Z]{3,32}$/.test(connection.id)) {
+      sendError(res, 400, 'InvalidRequest', 'Invalid connection ID');
+      return;
+    }
+    if (this.connections.has(connection.id)) {
+      sendError(res, 409, 'Conflict', 'Connection already exists');
+      return;
+    }
+
+    const created = { ...connection, state: 'draft' as const };
+    this.connections.set(connection.id, {
+      connection: created,
+      items: new Map(),
+      activities: new Map(),
+    });
+    res.status(201).json(created);
+  }
+
+  private setSchema(req: Request, res: Response) {
+    const connection = this.getConnection(req, res);
+    if (!connection) {
+      return;
+    }
+
+    const schema = req.body as ExternalConnectors.Schema;
+    if (req.method === 'PATCH') {
+      // Only new properties can be added to a registered schema
+      const existing = new Set(
+        (connection.schema?.properties ?? []).map((p) => p.name),
+      );
+      const updated = new Set((schema.properties ?? []).map((p) => p.name));
+      if ([...existing].some((name) => !updated.has(name))) {
+        sendError(res, 400, 'InvalidRequest', 'Properties cannot be removed');
+        return;
+      }
+    }
+
+    connection.schema = schema;
+    connection.connection.state = 'ready';
+
+    const operationId = `operation${this.nextOperationId++}`;
+    this.operations.set(operationId, { checks: 0 });
+    res
+      .status(202)
+      .location(
+        `${req.protocol}://${req.get('host')}/v1.0/external/connections/${req.params.connectionId}/operations/${operationId}`,
+      )
+      .end();
+  }
+
+  private getOperation(req: Request, res: Response) {
+    const operation = this.operations.get(req.params.operationId);
+    if (!operation) {
+      sendError(res, 404, 'ItemNotFound', 'Operation not found');
+      return;
+    }
+
+    operation.checks++;
+    res.json({
+      id: req.params.operationId,
+      status: operation.checks > 1 ? 'completed' : 'inprogress',
+    });
+  }
+
+  private putItem(req: Request, res: Response) {
+    const connection = this.getConnection(req, res);
+    if (!connection) {
+      return;
+    }
+    if (!connection.schema) {
+      sendError(res, 400, 'InvalidRequest', 'Schema is not registered');
+      return;
+    }
+
+    const item = req.body as ExternalConnectors.ExternalItem;
+    if (!item.acl?.length) {
+      sendError(res, 400, 'InvalidRequest', 'Item must have an ACL');
+      return;
+    }
+
+    // Annotations such as `name@odata.type` aren't properties
+    const names = new Set(connection.schema.properties?.map((p) => p.name));
+    const unknown = Object.keys(item.properties ?? {}).filter(
+      (name) => !name.includes('@') && !names.has(name),
+    );
+    if (unknown.length > 0) {
+      sendError(
+        res,
+        400,
+        'InvalidRequest',
+        `Properties not in schema: ${unknown.join(', ')}`,
+      );
+      return;
+    }
+
+    // Activities sent with an item are added to it, like those
+    // sent to addActivities, instead of being stored with it
+    const { activities, ...stored } = { ...item, id: req.params.itemId };
+    connection.items.set(req.params.itemId, stored);
+    if (activities?.length) {
+      const existing = connection.activities.get(req.params.itemId) ?? [];
+      connection.activities.set(req.params.itemId, [
+        ...existing,
+        ...activities,
+      ]);
+    }
+    res.json(stored);
+  }
+
+  private addActivities(req: Request, res: Response) {
+    const connection = this.getConnection(req, res);
+    if (!connection) {
+      return;
+    }
+    if (!connection.items.has(req.params.itemId)) {
+      sendError(res, 404, 'ItemNotFound', 'Item not found');
+      return;
+    }
+
+    const activities = (
+      req.body as { activities: ExternalConnectors.ExternalActivity[] }
+    ).activities;
+    const existing = connection.activities.get(req.params.itemId) ?? [];
+    connection.activities.set(req.params.itemId, [...existing, ...activities]);
+    res.json({ value: activities });
+  }
+
+  /**
+   * Gets the connection in a request's path, or responds with 404.
+   */
+  private getConnection(
+    req: Request,
+    res: Response,
+  ): FakeConnection | undefined {
+    const connection = this.connections.get(req.params.connectionId);
+    if (!connection) {
+      sendError(res, 404, 'ItemNotFound', 'Connection not found');
+    }
+    return connection;
+  }
+}
+
+/**
+ * Sends an error in the format used by Microsoft Graph.
+ */
+function sendError(
+  res: Response,
+  status: number,
+  code: string,
+  message: string,
+) {
+  res.status(status).json({ error: { code: code, message: message } });
+}
@@ -0,0 +1,79 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { marked } from 'marked';
+import { describe, expect, it } from 'vitest';
+
+import PlainTextRenderer from '../src/markdown/plainTextRenderer.js';
+
+// Each Markdown fixture has a .txt file with the expected text
+const fixturesDir = join(import.meta.dirname, 'fixtures', 'markdown');
+const fixtures = readdirSync(fixturesDir)
+  .filter((file) => file.endsWith('.md'))
+  .map((file) => file.slice(0, -'.md'.length));
+
+/**
+ * Converts Markdown to plain text with the PlainTextRenderer.
+ *
+ * @param markdown - The Markdown.
+ * @returns The plain text.
+ */
+async function renderAsync(markdown: string): Promise<string> {
+  return marked.parse(markdown, {
+    async: true,
+    renderer: new PlainTextRenderer(),
+  });
+}
+
+/**
+ * Removes trailing whitespace and repeated blank lines, which
+ * don't affect how the text is indexed.
+ *
+ * @param text - The text.
+ * @returns The normalized text.
+ */
+function normalize(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+describe('PlainTextRenderer', () => {
+  it.each(fixtures)('renders %s', async (fixture) => {
+    const markdown = readFileSync(join(fixturesDir, `${fixture}.md`), 'utf-8');
+    const expected = readFileSync(join(fixturesDir, `${fixture}.txt`), 'utf-8');
+
+    expect(normalize(await renderAsync(markdown))).toBe(normalize(expected));
+  });
+
+  it('renders task items with their checked state', async () => {
+    const text = await renderAsync('- [x] Done\n- [ ] To do\n');
+
+    expect(normalize(text)).toBe('- [x] Done\n- [ ] To do');
+  });
+
+  it('numbers ordered lists from their start number', async () => {
+    const text = await renderAsync('7. Seven\n8. Eight\n');
+
+    expect(normalize(text)).toBe('7. Seven\n8. Eight');
+  });
+
+  it('strips tags and comments from HTML blocks', async () => {
+    const text = await renderAsync(
+      '<!-- hidden -->\n\n<div>\n  <p>Hello &amp; <b>welcome</b></p>\n</div>\n',
+    );
+
+    expect(normalize(text)).toBe('Hello & welcome');
+  });
+
+  it('renders blockquotes without their markers', async () => {
+    const text = await renderAsync('> Quoted **text**\n>\n> > Nested\n');
+
+    expect(normalize(text)).toBe('Quoted text\n\nNested');
+  });
+});
@@ -0,0 +1,84 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { ExternalConnectors } from '@microsoft/microsoft-graph-types';
+import { describe, expect, it } from 'vitest';
+
+import { diffSchemas } from '../src/services/schemaMigrationService.js';
+
+const local: ExternalConnectors.Schema = {
+  baseType: 'microsoft.graph.externalItem',
+  properties: [
+    {
+      name: 'title',
+      type: 'string',
+      isSearchable: true,
+      isRetrievable: true,
+      labels: ['title'],
+    },
+    { name: 'state', type: 'string', isQueryable: true, isRefinable: true },
+    { name: 'updatedAt', type: 'dateTime', isRetrievable: true },
+  ],
+};
+
+describe('diffSchemas', () => {
+  it('ignores settings that Microsoft Graph returns as false or empty', () => {
+    const registered: ExternalConnectors.Schema = {
+      baseType: 'microsoft.graph.externalItem',
+      properties: [
+        {
+          name: 'title',
+          type: 'string',
+          isSearchable: true,
+          isQueryable: false,
+          isRetrievable: true,
+          isRefinable: false,
+          labels: ['title'],
+          aliases: [],
+        },
+        {
+          name: 'state',
+          type: 'string',
+          isSearchable: false,
+          isQueryable: true,
+          isRetrievable: false,
+          isRefinable: true,
+          labels: [],
+          aliases: [],
+        },
+        {
+          name: 'updatedAt',
+          type: 'DateTime' as ExternalConnectors.PropertyType,
+          isRetrievable: true,
+          labels: [],
+        },
+      ],
+    };
+
+    expect(diffSchemas(registered, local)).toEqual({
+      added: [],
+      removed: [],
+      changed: [],
+    });
+  });
+
+  it('lists added, removed, and changed properties', () => {
+    const registered: ExternalConnectors.Schema = {
+      baseType: 'microsoft.graph.externalItem',
+      properties: [
+        { name: 'title', type: 'string', isSearchable: true, labels: [] },
+        { name: 'body', type: 'string', isSearchable: true },
+        { name: 'updatedAt', type: 'dateTime', isRetrievable: true },
+      ],
+    };
+
+    const diff = diffSchemas(registered, local);
+
+    expect(diff.added.map((property) => property.name)).toEqual(['state']);
+    expect(diff.removed).toEqual(['body']);
+    expect(diff.changed).toEqual([
+      'title.isRetrievable: false -> true',
+      'title.labels: false -> [title]',
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+// Copyright (c) Microsoft Corporation.
+// Licensed under the MIT license.
+
+import { spawnSync } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import StateService from '../src/services/stateService.js';
+
+let stateDir: string;
+let stateFile: string;
+
+beforeEach(() => {
+  stateDir = mkdtempSync(join(tmpdir(), 'state-test-'));
+  stateFile = join(stateDir, 'state.json');
+});
+
+afterEach(() => {
+  rmSync(stateDir, { recursive: true, force: true });
+});
+
+describe('StateService', () => {
+  it('fails to save while another process holds the state file', async () => {
+    // The process that started the tests is still running
+    writeFileSync(`${stateFile}.lock`, String(process.ppid));
+    const stateService = new StateService({ stateFile: stateFile });
+    stateService.getConnectionState('GitHubIssues').lastSyncTime = 'now';
+
+    await expect(stateService.saveAsync()).rejects.toThrow(
+      `is in use by process ${process.ppid}`,
+    );
+  });
+
+  it('takes over the lock of a process that has stopped', async () => {
+    const { pid } = spawnSync(process.execPath, ['-e', '']);
+    writeFileSync(`${stateFile}.lock`, String(pid));
+    const stateService = new StateService({ stateFile: stateFile });
+    stateService.getConnectionState('GitHubIssues').lastSyncTime = 'now';
+
+    await stateService.saveAsync();
+
+    expect(readFileSync(`${stateFile}.lock`, 'utf-8')).toBe(
+      String(process.pid),
+    );
+    expect(
+      new StateService({ stateFile: stateFile }).getConnectionState(
+        'GitHubIssues',
+      ).lastSyncTime,
+    ).toBe('now');
+  });
+
+  it("doesn't overwrite changes saved by another process", async () => {
+    const stateService = new StateService({ stateFile: stateFile });
+    writeFileSync(
+      stateFile,
+      JSON.stringify({ connections: { GitHubPulls: {} } }),
+    );
+    stateService.getConnectionState('GitHubIssues').lastSyncTime = 'now';
+
+    await expect(stateService.saveAsync()).rejects.toThrow(
+      'was changed by another process',
+    );
+    expect(JSON.parse(readFileSync(stateFile, 'utf-8')).connections).toEqual({
+      GitHubPulls: {},
+    });
+  });
+});